@@ -0,0 +1,140 @@
+import axios, { AxiosRequestConfig } from 'axios';
+
+// Error codes of requests that never reached the server (offline, DNS failure, no route or nothing listening)
+const OFFLINE_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ENETUNREACH', 'EHOSTUNREACH'];
+// Error codes of requests whose connection dropped or timed out; the server may have acted on them
+const CONNECTION_LOST_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT'];
+// Wait after a rate limit response that does not say how long to wait (GitHub asks for at least a minute)
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+export interface ApiClientOptions {
+    headers?: { [name: string]: string };
+    maxRetries?: number; // Retries after server errors, network errors and rate limits
+    retryDelayMs?: number; // Wait before the first retry, doubled for every further one
+    maxRateLimitWaitMs?: number; // Longest wait for a rate limit to reset; longer ones fail right away
+    timeoutMs?: number;
+    log?: (message: string) => void; // Where retries are reported (the console by default)
+}
+
+// True if the request failed because the server could not be reached, so it certainly had no effect
+export function isOfflineError(error: any): boolean {
+    return !error?.response && OFFLINE_ERROR_CODES.includes(error?.code);
+}
+
+// True if the request failed without a response: the server could not be reached, or the connection was lost
+export function isNetworkError(error: any): boolean {
+    return isOfflineError(error) || (!error?.response && CONNECTION_LOST_ERROR_CODES.includes(error?.code));
+}
+
+// True for primary (remaining quota 0) and secondary (Retry-After) rate limit responses
+export function isRateLimitError(error: any): boolean {
+    const response = error?.response;
+    if (!response) {
+        return false;
+    }
+    return response.status === 429 || (response.status === 403 && (response.headers?.['x-ratelimit-remaining'] === '0' || !!response.headers?.['retry-after']));
+}
+
+// The most helpful message of a failed request or other error
+export function getErrorMessage(error: any): string {
+    if (error?.response?.data?.message) {
+        return error.response.data.message;
+    }
+    if (isOfflineError(error)) {
+        return `Could not reach the server (${error.code}). Check your network connection.`;
+    }
+    if (isNetworkError(error)) {
+        return `The connection to the server was lost (${error.code}). Check your network connection.`;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Time until a rate limit resets, from the Retry-After or X-RateLimit-Reset header
+function getRateLimitWait(headers: { [name: string]: string } | undefined): number {
+    const retryAfter = Number(headers?.['retry-after']);
+    if (retryAfter > 0) {
+        return retryAfter * 1000;
+    }
+    const reset = Number(headers?.['x-ratelimit-reset']);
+    if (reset > 0) {
+        return Math.max(0, reset * 1000 - Date.now()) + 1000;
+    }
+    return DEFAULT_RATE_LIMIT_WAIT_MS;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// HTTP client of the API-based storage backends: retries server and network errors with exponential backoff, waits
+// for rate limits that reset soon and fails with a readable message for ones that do not
+export class ApiClient {
+    private headers: { [name: string]: string };
+    private maxRetries: number;
+    private retryDelayMs: number;
+    private maxRateLimitWaitMs: number;
+    private timeoutMs: number;
+    private log: (message: string) => void;
+
+    constructor(options: ApiClientOptions = {}) {
+        this.headers = options.headers ?? {};
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60 * 1000;
+        this.timeoutMs = options.timeoutMs ?? 30 * 1000;
+        this.log = options.log ?? console.warn;
+    }
+
+    public async get<T>(url: string): Promise<T> {
+        return this.request<T>({ method: 'get', url });
+    }
+
+    // Gets a raw file; the client's headers are only sent if withHeaders is set, so tokens do not go to other hosts
+    public async getText(url: string, withHeaders: boolean): Promise<string> {
+        return this.request<string>({ method: 'get', url, transformResponse: [(data: string) => data] }, withHeaders);
+    }
+
+    public async post<T>(url: string, data: unknown): Promise<T> {
+        return this.request<T>({ method: 'post', url, data });
+    }
+
+    public async patch<T>(url: string, data: unknown): Promise<T> {
+        return this.request<T>({ method: 'patch', url, data });
+    }
+
+    private async request<T>(config: AxiosRequestConfig, withHeaders: boolean = true): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await axios.request<T>({ ...config, headers: withHeaders ? this.headers : {}, timeout: this.timeoutMs });
+                return response.data;
+            } catch (error: any) {
+                const delay = this.getRetryDelay(error, attempt, config.method !== 'post');
+                if (delay === undefined) {
+                    if (isRateLimitError(error)) {
+                        const resetAt = new Date(Date.now() + getRateLimitWait(error.response.headers));
+                        throw new Error(`API rate limit exceeded. Try again after ${resetAt.toLocaleTimeString()}.`);
+                    }
+                    throw error;
+                }
+                this.log(`${config.method?.toUpperCase()} ${config.url} failed (${getErrorMessage(error)}), retrying in ${Math.round(delay / 1000)}s`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    // How long to wait before retrying a failed request, or undefined if it is not worth retrying. Requests that are
+    // not idempotent are only retried after rate limits, as other failures may have happened after the server acted.
+    private getRetryDelay(error: any, attempt: number, idempotent: boolean): number | undefined {
+        if (attempt >= this.maxRetries) {
+            return undefined;
+        }
+        if (isRateLimitError(error)) {
+            const wait = getRateLimitWait(error.response.headers);
+            return wait <= this.maxRateLimitWaitMs ? wait : undefined;
+        }
+        if (idempotent && (isNetworkError(error) || error?.response?.status >= 500)) {
+            return this.retryDelayMs * 2 ** attempt;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GistService } from './gistService';
+import { isOfflineError } from './apiClient';
+import { getUserFilePaths } from './userFiles';
+
+// Files in the user data folder whose changes trigger an upload, besides the synced user files and folders
+const WATCHED_FILES = ['settings.json', 'keybindings.json'];
+
+// Opt-in background sync: uploads local changes shortly after they happen and
+// downloads newer Gist revisions on startup and on an interval
+export class AutoSyncService implements vscode.Disposable {
+    private static instance: AutoSyncService;
+    private gistService: GistService;
+    private watchers: fs.FSWatcher[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private uploadTimer: NodeJS.Timeout | undefined;
+    private checkTimer: NodeJS.Timeout | undefined;
+    private uploadDelay = 5000;
+    private syncing = false;
+
+    private constructor(gistService: GistService) {
+        this.gistService = gistService;
+    }
+
+    public static getInstance(gistService: GistService): AutoSyncService {
+        if (!AutoSyncService.instance) {
+            AutoSyncService.instance = new AutoSyncService(gistService);
+        }
+        return AutoSyncService.instance;
+    }
+
+    // Starts or stops auto sync according to the current configuration
+    public refresh(): void {
+        this.stop();
+        const extensionConfig = vscode.workspace.getConfiguration('settingsSave');
+        if (!extensionConfig.get<boolean>('autoSync.enabled')) {
+            return;
+        }
+
+        this.uploadDelay = Math.max(1, extensionConfig.get<number>('autoSync.uploadDelaySeconds') ?? 5) * 1000;
+        const checkInterval = Math.max(1, extensionConfig.get<number>('autoSync.checkIntervalMinutes') ?? 15) * 60 * 1000;
+
+        // Watch the folder rather than the files: VS Code replaces the files when saving them
+        const userDataPath = this.gistService.getUserDataPath();
+        const userFilePaths = getUserFilePaths(extensionConfig.get<string[]>('additionalFiles') ?? []);
+        const watchedNames = [...WATCHED_FILES, ...userFilePaths.map(relativePath => relativePath.split('/')[0])];
+        try {
+            this.watchers.push(fs.watch(userDataPath, (_event, fileName) => {
+                if (fileName && watchedNames.includes(fileName.toString())) {
+                    this.scheduleUpload();
+                }
+            }));
+            // Synced folders (such as the snippets) are watched themselves, synced files in subfolders through their folder
+            const watchedPaths = new Set([userDataPath]);
+            for (const relativePath of userFilePaths) {
+                const fullPath = path.join(userDataPath, relativePath);
+                const isFolder = fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory();
+                const watchedPath = isFolder ? fullPath : path.dirname(fullPath);
+                if (watchedPaths.has(watchedPath) || !fs.existsSync(watchedPath)) {
+                    continue;
+                }
+                watchedPaths.add(watchedPath);
+                this.watchers.push(fs.watch(watchedPath, (_event, fileName) => {
+                    if (isFolder || fileName?.toString() === path.basename(fullPath)) {
+                        this.scheduleUpload();
+                    }
+                }));
+            }
+        } catch (error) {
+            console.error('Auto sync could not watch the user data folder:', error);
+        }
+        this.disposables.push(vscode.extensions.onDidChange(() => this.scheduleUpload()));
+
+        this.checkTimer = setInterval(() => this.downloadRemoteChanges(), checkInterval);
+        this.downloadRemoteChanges();
+    }
+
+    private stop(): void {
+        this.watchers.forEach(watcher => watcher.close());
+        this.watchers = [];
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        clearTimeout(this.uploadTimer);
+        clearInterval(this.checkTimer);
+    }
+
+    public dispose(): void {
+        this.stop();
+    }
+
+    // Debounces bursts of file events into a single upload
+    private scheduleUpload(): void {
+        clearTimeout(this.uploadTimer);
+        this.uploadTimer = setTimeout(() => this.uploadLocalChanges(), this.uploadDelay);
+    }
+
+    private async uploadLocalChanges(): Promise<void> {
+        const started = await this.runExclusive(async () => {
+            if (!this.gistService.hasLocalChanges()) {
+                return;
+            }
+            // Merge changes from other machines first so the upload never overwrites them
+            let hasRemoteChanges: boolean;
+            try {
+                hasRemoteChanges = await this.gistService.hasRemoteChanges();
+            } catch (error) {
+                if (!isOfflineError(error)) {
+                    throw error;
+                }
+                // The upload queue uploads once the network is back (and still never overwrites changes from other machines)
+                await this.gistService.queueUpload();
+                return;
+            }
+            if (hasRemoteChanges && !await this.gistService.downloadSettings({ auto: true })) {
+                return;
+            }
+            if (this.gistService.hasLocalChanges()) {
+                await this.gistService.uploadSettings({ auto: true });
+            }
+        });
+        if (!started) {
+            this.scheduleUpload(); // Another sync is running, try again later
+        }
+    }
+
+    private async downloadRemoteChanges(): Promise<void> {
+        await this.runExclusive(async () => {
+            if (await this.gistService.hasRemoteChanges()) {
+                await this.gistService.downloadSettings({ auto: true });
+            }
+        });
+    }
+
+    // Runs one auto sync task at a time, so checks do not pile up (the syncs themselves are serialized by GistService);
+    // returns false if another task was already running
+    private async runExclusive(task: () => Promise<void>): Promise<boolean> {
+        if (this.syncing) {
+            return false;
+        }
+        this.syncing = true;
+        try {
+            await task();
+        } catch (error) {
+            console.error('Auto sync failed:', error);
+        } finally {
+            this.syncing = false;
+        }
+        return true;
+    }
+}
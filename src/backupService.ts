@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const BACKUPS_FOLDER_NAME = 'backups';
+const BACKUP_FILE_PREFIX = 'backup-';
+
+// File name -> content (null if the file did not exist when the backup was taken)
+export type BackupFiles = { [fileName: string]: string | null };
+
+export interface Backup {
+    createdAt: string;
+    reason: string;
+    files: BackupFiles;
+}
+
+// Timestamped snapshots of the local configuration, kept in the extension's global storage
+export class BackupService {
+    private static instance: BackupService;
+    private context: vscode.ExtensionContext;
+
+    private constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): BackupService {
+        if (!BackupService.instance) {
+            BackupService.instance = new BackupService(context);
+        }
+        BackupService.instance.context = context;
+        return BackupService.instance;
+    }
+
+    private getBackupsPath(): string {
+        return path.join(this.context.globalStorageUri.fsPath, BACKUPS_FOLDER_NAME);
+    }
+
+    // Writes a new backup and prunes old ones; throws if the backup cannot be written
+    public createBackup(reason: string, files: BackupFiles): Backup {
+        const backup: Backup = { createdAt: new Date().toISOString(), reason, files };
+        const backupsPath = this.getBackupsPath();
+        fs.mkdirSync(backupsPath, { recursive: true });
+        // ISO timestamps sort chronologically; ':' and '.' are not valid in Windows file names
+        const fileName = `${BACKUP_FILE_PREFIX}${backup.createdAt.replace(/[:.]/g, '-')}.json`;
+        fs.writeFileSync(path.join(backupsPath, fileName), JSON.stringify(backup, null, 2), 'utf8');
+        this.pruneBackups(fileName);
+        return backup;
+    }
+
+    // Lists the stored backups, newest first
+    public listBackups(): Backup[] {
+        return this.getBackupFileNames()
+            .map(fileName => this.readBackup(fileName))
+            .filter((backup): backup is Backup => backup !== undefined);
+    }
+
+    private getBackupFileNames(): string[] {
+        const backupsPath = this.getBackupsPath();
+        if (!fs.existsSync(backupsPath)) {
+            return [];
+        }
+        return fs.readdirSync(backupsPath)
+            .filter(fileName => fileName.startsWith(BACKUP_FILE_PREFIX) && fileName.endsWith('.json'))
+            .sort()
+            .reverse();
+    }
+
+    private readBackup(fileName: string): Backup | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(path.join(this.getBackupsPath(), fileName), 'utf8'));
+        } catch (error) {
+            console.warn(`Skipping unreadable backup ${fileName}:`, error);
+            return undefined;
+        }
+    }
+
+    // Removes backups beyond the configured count or age, never the one just written
+    private pruneBackups(keepFileName: string): void {
+        const extensionConfig = vscode.workspace.getConfiguration('settingsSave');
+        const maxCount = extensionConfig.get<number>('backups.maxCount') ?? 10;
+        const maxAgeDays = extensionConfig.get<number>('backups.maxAgeDays') ?? 30;
+        const oldestAllowed = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+        this.getBackupFileNames().forEach((fileName, index) => {
+            if (fileName === keepFileName) {
+                return;
+            }
+            const backup = this.readBackup(fileName);
+            const tooMany = maxCount > 0 && index >= maxCount;
+            const tooOld = maxAgeDays > 0 && (!backup || Date.parse(backup.createdAt) < oldestAllowed);
+            if (tooMany || tooOld) {
+                try {
+                    fs.unlinkSync(path.join(this.getBackupsPath(), fileName));
+                } catch (error) {
+                    console.warn(`Could not remove old backup ${fileName}:`, error);
+                }
+            }
+        });
+    }
+}
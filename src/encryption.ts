@@ -0,0 +1,88 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const FORMAT_VERSION = 1;
+const ALGORITHM = 'aes-256-gcm';
+
+// Encrypted file content as stored in the Gist (still valid JSON, so the Gist stays readable as a file)
+interface EncryptedContent {
+    settingsSaveEncrypted: number;
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+// Derived keys by salt and passphrase: files of one upload share a salt, so scrypt runs once per upload
+const keyCache = new Map<string, Buffer>();
+
+async function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+    const cacheKey = `${salt.toString('base64')}:${passphrase}`;
+    let key = keyCache.get(cacheKey);
+    if (!key) {
+        key = await scrypt(passphrase, salt, 32);
+        keyCache.set(cacheKey, key);
+    }
+    return key;
+}
+
+export const WRONG_PASSPHRASE_MESSAGE = 'Wrong passphrase: the Gist contents could not be decrypted.';
+
+function parseEncryptedContent(content: string): EncryptedContent | undefined {
+    if (!content.includes('"settingsSaveEncrypted"')) {
+        return undefined;
+    }
+    try {
+        const parsed = JSON.parse(content);
+        return typeof parsed?.settingsSaveEncrypted === 'number' ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function isEncryptedContent(content: string): boolean {
+    return parseEncryptedContent(content) !== undefined;
+}
+
+// Encrypts each content with AES-256-GCM, using a key derived from the passphrase with scrypt and a random salt
+export async function encryptContents(contents: string[], passphrase: string): Promise<string[]> {
+    const salt = crypto.randomBytes(16);
+    const key = await deriveKey(passphrase, salt);
+    return contents.map(content => encryptWithKey(content, key, salt));
+}
+
+function encryptWithKey(content: string, key: Buffer, salt: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(content, 'utf8'), cipher.final()]);
+    const encrypted: EncryptedContent = {
+        settingsSaveEncrypted: FORMAT_VERSION,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+    return JSON.stringify(encrypted, null, 2);
+}
+
+// Decrypts content written by encryptContents; throws with WRONG_PASSPHRASE_MESSAGE if the passphrase does not match
+export async function decryptContent(content: string, passphrase: string): Promise<string> {
+    const encrypted = parseEncryptedContent(content);
+    if (!encrypted) {
+        throw new Error('Content is not encrypted.');
+    }
+    if (encrypted.settingsSaveEncrypted > FORMAT_VERSION) {
+        throw new Error('The Gist was encrypted by a newer version of Settings Save. Please update the extension.');
+    }
+    const key = await deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64'));
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    try {
+        return Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+        // GCM authentication fails when the key (i.e. the passphrase) is wrong
+        throw new Error(WRONG_PASSPHRASE_MESSAGE);
+    }
+}
@@ -1,11 +1,18 @@
 import * as vscode from 'vscode';
 import { GistService } from './gistService';
+import { GIST_CONTENT_SCHEME, GistContentProvider } from './gistContentProvider';
+import { AutoSyncService } from './autoSyncService';
+import { ProfileService } from './profileService';
+import { SyncLog } from './syncLog';
+import { UploadQueue } from './uploadQueue';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Settings Save extension is now active');
 
     // Initialize services, passing the context
     const gistService = GistService.getInstance(context);
+    const profileService = ProfileService.getInstance(context);
+    const syncLog = SyncLog.getInstance(context);
 
     // Register the upload settings command
     let uploadCommand = vscode.commands.registerCommand('settings-save.uploadSettings', async () => {
@@ -25,8 +32,160 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Register the preview download command (shows the differences and lets the user pick what to apply)
+    let previewDownloadCommand = vscode.commands.registerCommand('settings-save.previewDownload', async () => {
+        try {
+            await gistService.downloadSettings({ preview: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run preview download command: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the restore backup command
+    let restoreBackupCommand = vscode.commands.registerCommand('settings-save.restoreBackup', async () => {
+        try {
+            await gistService.restoreBackup();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restore backup: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the history command
+    let showHistoryCommand = vscode.commands.registerCommand('settings-save.showHistory', async () => {
+        try {
+            await gistService.showHistory();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show Gist history: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the create profile command
+    let createProfileCommand = vscode.commands.registerCommand('settings-save.createProfile', async () => {
+        try {
+            const profile = await profileService.createProfile();
+            if (profile) {
+                const choice = await vscode.window.showInformationMessage(`Profile "${profile.name}" created.`, 'Switch to Profile');
+                if (choice === 'Switch to Profile') {
+                    await profileService.setActiveProfile(profile.name);
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create profile: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the switch profile command (optionally downloads the new profile right away)
+    let switchProfileCommand = vscode.commands.registerCommand('settings-save.switchProfile', async () => {
+        try {
+            const profile = await profileService.pickProfile('Select the profile to switch to');
+            if (!profile) {
+                return;
+            }
+            await profileService.setActiveProfile(profile.name);
+            const choice = await vscode.window.showInformationMessage(`Switched to profile "${profile.name}". Download its settings now?`, 'Preview Download', 'Download');
+            if (choice) {
+                await gistService.downloadSettings({ preview: choice === 'Preview Download' });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to switch profile: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the upload to profile command
+    let uploadToProfileCommand = vscode.commands.registerCommand('settings-save.uploadToProfile', async () => {
+        try {
+            const profile = await profileService.pickProfile('Select the profile to upload to');
+            if (profile) {
+                await gistService.uploadSettings({ profile: profile.name });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run upload command: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the download from profile command
+    let downloadFromProfileCommand = vscode.commands.registerCommand('settings-save.downloadFromProfile', async () => {
+        try {
+            const profile = await profileService.pickProfile('Select the profile to download from');
+            if (profile) {
+                await gistService.downloadSettings({ profile: profile.name });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run download command: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the encryption passphrase commands
+    let setPassphraseCommand = vscode.commands.registerCommand('settings-save.setPassphrase', async () => {
+        try {
+            await gistService.setPassphrase();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to set passphrase: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    let changePassphraseCommand = vscode.commands.registerCommand('settings-save.changePassphrase', async () => {
+        try {
+            await gistService.changePassphrase();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to change passphrase: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the setting sources command
+    let showSettingSourcesCommand = vscode.commands.registerCommand('settings-save.showSettingSources', async () => {
+        try {
+            await gistService.showSettingSources();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show setting sources: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the storage endpoint token command
+    let setStorageTokenCommand = vscode.commands.registerCommand('settings-save.setStorageToken', async () => {
+        try {
+            await gistService.setStorageToken();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to set storage token: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register the sync log commands
+    let showLogCommand = vscode.commands.registerCommand('settings-save.showLog', () => {
+        syncLog.showOutput();
+    });
+    let clearSyncHistoryCommand = vscode.commands.registerCommand('settings-save.clearSyncHistory', async () => {
+        try {
+            await syncLog.clearHistory();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to clear sync history: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Show the sync history in the sidebar and the last sync in the status bar
+    let syncHistoryView = vscode.window.registerTreeDataProvider('settingsSave.syncHistory', syncLog);
+    let syncStatusBarItem = syncLog.createStatusBarItem();
+
+    // Show the active profile in the status bar
+    let profileStatusBarItem = profileService.createStatusBarItem();
+
+    // Serve Gist contents for diff editors
+    let contentProvider = vscode.workspace.registerTextDocumentContentProvider(GIST_CONTENT_SCHEME, GistContentProvider.getInstance());
+
+    // Retry uploads made while offline
+    const uploadQueue = UploadQueue.getInstance(gistService);
+    uploadQueue.start();
+
+    // Start auto sync if enabled and follow configuration changes
+    const autoSyncService = AutoSyncService.getInstance(gistService);
+    autoSyncService.refresh();
+    let configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('settingsSave.autoSync') || event.affectsConfiguration('settingsSave.forkFolderName') || event.affectsConfiguration('settingsSave.additionalFiles')) {
+            autoSyncService.refresh();
+        }
+    });
+
     // Add commands to the extension context
-    context.subscriptions.push(uploadCommand, downloadCommand);
+    context.subscriptions.push(uploadCommand, downloadCommand, previewDownloadCommand, restoreBackupCommand, showHistoryCommand, createProfileCommand, switchProfileCommand, uploadToProfileCommand, downloadFromProfileCommand, setPassphraseCommand, changePassphraseCommand, setStorageTokenCommand, showSettingSourcesCommand, showLogCommand, clearSyncHistoryCommand, syncHistoryView, syncStatusBarItem, syncLog, profileStatusBarItem, contentProvider, uploadQueue, autoSyncService, configurationListener);
 }
 
 export function deactivate() { } 
\ No newline at end of file
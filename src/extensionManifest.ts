@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// One entry of the synced extensions.json
+export interface ExtensionEntry {
+    id: string;
+    version?: string;
+    preRelease?: boolean; // Installed from the pre-release channel
+    enabled?: boolean; // False if installed but disabled
+}
+
+// Reads an extensions.json manifest; lists of plain extension IDs, as written by earlier versions, are accepted as well
+export function parseExtensionManifest(manifest: (string | ExtensionEntry)[]): ExtensionEntry[] {
+    return manifest
+        .map(entry => typeof entry === 'string' ? { id: entry } : entry)
+        .filter(entry => typeof entry?.id === 'string');
+}
+
+// Extension IDs are case-insensitive
+export function isSameExtension(first: string, second: string): boolean {
+    return first.toLowerCase() === second.toLowerCase();
+}
+
+export function findExtension(entries: ExtensionEntry[], id: string): ExtensionEntry | undefined {
+    return entries.find(entry => isSameExtension(entry.id, id));
+}
+
+// Sorted by ID, for comparing manifests
+export function sortExtensions(entries: ExtensionEntry[]): ExtensionEntry[] {
+    return [...entries].sort((first, second) => first.id.toLowerCase().localeCompare(second.id.toLowerCase()));
+}
+
+// All extensions installed in the extensions folder, enabled or not, read from the folder's own extensions.json
+// (disabled extensions are missing from vscode.extensions.all); empty if the folder has no such file
+export function readInstalledExtensions(extensionsFolderPath: string): ExtensionEntry[] {
+    try {
+        const manifestPath = path.join(extensionsFolderPath, 'extensions.json');
+        if (!fs.existsSync(manifestPath)) {
+            return [];
+        }
+        const installed: any[] = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        return installed
+            .filter(extension => typeof extension?.identifier?.id === 'string')
+            .map(extension => ({
+                id: extension.identifier.id,
+                version: extension.version,
+                preRelease: !!(extension.metadata?.preRelease ?? extension.metadata?.isPreReleaseVersion)
+            }));
+    } catch (error) {
+        console.warn('Could not read the installed extensions:', error);
+        return [];
+    }
+}
@@ -0,0 +1,100 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageFileChanges, StorageFiles, StorageProvider, StorageRevision, StoredFiles } from './storageProvider';
+
+// One revision of a store, saved as <folder>/<store ID>/<revision>.json
+interface FolderRevision {
+    version: string;
+    committedAt: string;
+    description: string;
+    files: { [fileName: string]: string };
+}
+
+// Stores files in a local or network folder (e.g. for machines without access to GitHub).
+// Every write adds a revision file, so the history works as with Gists.
+export class FolderStorage implements StorageProvider {
+    private folderPath: string;
+
+    constructor(folderPath: string) {
+        this.folderPath = folderPath;
+    }
+
+    private getStorePath(id: string): string {
+        if (!this.isSafeName(id)) {
+            throw new Error(`Invalid store ID: ${id}`);
+        }
+        if (!fs.existsSync(this.folderPath)) {
+            throw new Error(`Storage folder not found: ${this.folderPath}`);
+        }
+        return path.join(this.folderPath, id);
+    }
+
+    // Store IDs and revisions become file names, so they may not contain path separators or '..'
+    private isSafeName(name: string): boolean {
+        return /^[A-Za-z0-9_-]+$/.test(name);
+    }
+
+    // Revision names, oldest first (they start with the time of the write); throws ENOENT if the store does not exist
+    private listRevisionNames(id: string): string[] {
+        return fs.readdirSync(this.getStorePath(id))
+            .filter(fileName => fileName.endsWith('.json'))
+            .map(fileName => fileName.slice(0, -'.json'.length))
+            .sort();
+    }
+
+    private readRevision(id: string, version: string): FolderRevision {
+        if (!this.isSafeName(version)) {
+            throw new Error(`Invalid revision: ${version}`);
+        }
+        return JSON.parse(fs.readFileSync(path.join(this.getStorePath(id), `${version}.json`), 'utf8'));
+    }
+
+    private toStorageFiles(files: { [fileName: string]: string }): StorageFiles {
+        return Object.fromEntries(Object.entries(files).map(([fileName, content]) => [fileName, { content }]));
+    }
+
+    public async read(id: string, revision?: string): Promise<StoredFiles> {
+        const version = revision ?? this.listRevisionNames(id).pop();
+        if (!version) {
+            return { id, files: {} };
+        }
+        return { id, revision: version, files: this.toStorageFiles(this.readRevision(id, version).files) };
+    }
+
+    public async write(id: string | undefined, files: StorageFileChanges, description: string): Promise<StoredFiles> {
+        const storeId = id ?? crypto.randomBytes(8).toString('hex');
+        const contents: { [fileName: string]: string } = {};
+        if (id) {
+            const current = await this.read(id);
+            for (const [fileName, file] of Object.entries(current.files)) {
+                contents[fileName] = file.content ?? '';
+            }
+        }
+        for (const [fileName, file] of Object.entries(files)) {
+            if (file) {
+                contents[fileName] = file.content;
+            } else {
+                delete contents[fileName];
+            }
+        }
+
+        const storePath = this.getStorePath(storeId);
+        fs.mkdirSync(storePath, { recursive: true });
+        const committedAt = new Date().toISOString();
+        const version = `${committedAt.replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}`;
+        const revision: FolderRevision = { version, committedAt, description, files: contents };
+        // Write to a temporary file first, so other machines never read a half-written revision
+        const revisionPath = path.join(storePath, `${version}.json`);
+        fs.writeFileSync(`${revisionPath}.tmp`, JSON.stringify(revision, null, 2), 'utf8');
+        fs.renameSync(`${revisionPath}.tmp`, revisionPath);
+        return { id: storeId, revision: version, files: this.toStorageFiles(contents) };
+    }
+
+    public async listRevisions(id: string, limit: number): Promise<StorageRevision[]> {
+        return this.listRevisionNames(id).reverse().slice(0, limit).map(version => ({
+            version,
+            committedAt: this.readRevision(id, version).committedAt
+        }));
+    }
+}
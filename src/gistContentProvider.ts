@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+
+export const GIST_CONTENT_SCHEME = 'settings-save';
+
+// Serves read-only Gist file contents so they can be opened in (diff) editors
+export class GistContentProvider implements vscode.TextDocumentContentProvider {
+    private static instance: GistContentProvider;
+    private contents = new Map<string, string>();
+    private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    public static getInstance(): GistContentProvider {
+        if (!GistContentProvider.instance) {
+            GistContentProvider.instance = new GistContentProvider();
+        }
+        return GistContentProvider.instance;
+    }
+
+    // Stores content under the given path and returns the URI to open it with
+    public setContent(documentPath: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: GIST_CONTENT_SCHEME, path: `/${documentPath}` });
+        this.contents.set(uri.path, content);
+        this.onDidChangeEmitter.fire(uri);
+        return uri;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.path) ?? '';
+    }
+}
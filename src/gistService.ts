@@ -1,21 +1,137 @@
 import * as vscode from 'vscode';
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as crypto from 'crypto';
+import { parse as parseJsonc, ParseError, printParseErrorCode } from 'jsonc-parser';
+import { EntryDifference, Keybinding, MergeConflict, MergeResult, SettingsObject, diffKeybindings, diffSettings, isDeepEqual, keybindingEntries, mergeKeybindings, mergeSettings, resolveConflicts, takeRemoteValues } from './merge';
+import { GistContentProvider } from './gistContentProvider';
+import { BackupFiles, BackupService } from './backupService';
+import { DEFAULT_PROFILE_NAME, Profile, ProfileService } from './profileService';
+import { SyncFilter } from './syncFilter';
+import { WRONG_PASSPHRASE_MESSAGE, decryptContent, encryptContents, isEncryptedContent } from './encryption';
+import { containsSecretPlaceholder, findSecrets, redactSecrets, restoreRedactedValue, restoreRedactedValues } from './secretScanner';
+import { StorageFileChanges, StorageFiles, StorageProvider, StoredFiles, isStoreNotFoundError } from './storageProvider';
+import { GITHUB_GISTS_URL, GistStorage } from './gistStorage';
+import { getErrorMessage, isOfflineError } from './apiClient';
+import { FolderStorage } from './folderStorage';
+import { UserFiles, fromStorageFileName, fromStorageFiles, isSafeRelativePath, readUserFiles, toStorageFileName, writeUserFile } from './userFiles';
+import { ExtensionEntry, findExtension, parseExtensionManifest, readInstalledExtensions, sortExtensions } from './extensionManifest';
+import { SettingsLayer, mergeLayers, removeBaselineSettings } from './layers';
+import { updateKeybindingsContent, updateSettingsContent } from './jsoncEdit';
+import { SyncItemOutcome, SyncLog, SyncRun, SyncRunState } from './syncLog';
+import { SUPPORTED_PLATFORMS, applyPlatformSettings, getCurrentPlatform, getPlatformKeybindingsFileName, keepLocalSettings, translateKeybindings } from './platform';
 
 const GIST_ID_KEY = 'settingsSave.gistId';
+// Secret storage key of the passphrase used to encrypt Gist contents
+const PASSPHRASE_SECRET_KEY = 'settingsSave.encryptionPassphrase';
+// Secret storage key of the token sent to the HTTP storage endpoint
+const STORAGE_TOKEN_SECRET_KEY = 'settingsSave.storageToken';
+// Gist revision of the last upload or download, used to detect changes made by other machines
+const SYNC_MARKER_KEY = 'settingsSave.lastSyncedRevision';
+// Last synced state, used as the base of the three-way merge on download
+// (these sync state keys get a suffix for profiles other than the default one)
+const SYNC_SNAPSHOT_KEY = 'settingsSave.lastSyncedSnapshot';
+// Revisions of the team baselines at the last download, by Gist ID
+const BASELINE_REVISIONS_KEY = 'settingsSave.baselineRevisions';
+// Names of the profiles whose upload failed because the network was unavailable, retried by the UploadQueue
+const QUEUED_UPLOADS_KEY = 'settingsSave.queuedUploads';
 // Define filenames for the Gist
 const USER_SETTINGS_FILENAME = 'settings.json';
 const KEYBINDINGS_FILENAME = 'keybindings.json';
 const EXTENSIONS_FILENAME = 'extensions.json';
+// Describes the upload (source platform and time)
+const SYNC_INFO_FILENAME = 'sync-info.json';
+// Group of the user files (snippets, tasks.json, additional files) in pickers
+const USER_FILES_GROUP = 'Other files';
+// Number of revisions listed by the history command
+const HISTORY_PAGE_SIZE = 20;
+
+type GistFiles = StorageFiles;
+
+// Local state and downloaded Gist contents, merged against the last synced snapshot
+interface DownloadPlan {
+    localSettings: SettingsObject;
+    remoteSettings?: SettingsObject;
+    settingsMerge?: MergeResult<any>;
+    localKeybindings: Keybinding[];
+    remoteKeybindings?: Keybinding[];
+    keybindingsMerge?: MergeResult<Keybinding>;
+    remoteExtensions?: ExtensionEntry[];
+    uninstallCandidates?: { id: string, removedRemotely: boolean }[]; // Mirror mode: local extensions that are not in the Gist
+    localUserFiles: UserFiles;
+    remoteUserFiles?: UserFiles;
+    userFilesMerge?: MergeResult<string>;
+}
+
+// What a download applies; parts left undefined are not touched
+interface DownloadSelection {
+    settings?: SettingsObject; // Changed keys only, undefined values remove the setting
+    keybindings?: Keybinding[]; // The complete resulting keybindings list
+    extensions?: ExtensionEntry[]; // Extensions to install if missing (or, when pinning versions, at another version)
+    uninstallExtensions?: string[]; // Extension IDs to uninstall
+    userFiles?: { [relativePath: string]: string | undefined }; // Changed files only, undefined deletes the file
+}
+
+interface GistRevision {
+    version: string;
+    committedAt: string;
+    additions?: number; // Line counts, if the storage backend provides them
+    deletions?: number;
+    rawFiles: GistFiles;
+    files?: GistFiles; // Undefined until decrypted if the stored passphrase does not fit
+    changedFiles?: string[]; // Undefined if this or the previous revision could not be decrypted
+}
+
+interface SyncSnapshot {
+    settings?: SettingsObject;
+    keybindings?: Keybinding[];
+    extensions?: ExtensionEntry[];
+    userFiles?: UserFiles;
+}
+
+interface SyncInfo {
+    platform?: string;
+    uploadedAt?: string;
+    encrypted?: boolean;
+}
+
+// A read-only Gist layered under the personal one, as configured in settingsSave.baselines
+interface BaselineSource {
+    name: string;
+    gistId: string;
+}
+
+interface SyncMarker {
+    gistId: string;
+    revision: string;
+    fingerprint?: string; // Hash of the profile's own files at that revision (see getProfileFingerprint)
+}
+
+export interface SyncOptions {
+    auto?: boolean; // Started by auto sync: no prompts and no progress notifications
+    profile?: string; // Profile to sync with instead of the active one
+}
+
+export interface DownloadOptions extends SyncOptions {
+    preview?: boolean; // Let the user pick the changes to apply
+    revision?: string; // Apply this Gist revision instead of the latest one (does not count as a sync)
+}
 
 export class GistService {
     private static instance: GistService;
     private context: vscode.ExtensionContext;
+    private silent = false;
+    private profileService: ProfileService;
+    private syncLog: SyncLog;
+    private run: SyncRun | undefined; // The upload, download or restore in progress
+    private syncQueue: Promise<unknown> = Promise.resolve(); // Settles when the last queued sync is done
+    private revisionCache = new Map<string, GistFiles>();
 
     private constructor(context: vscode.ExtensionContext) {
         this.context = context;
+        this.profileService = ProfileService.getInstance(context);
+        this.syncLog = SyncLog.getInstance(context);
     }
 
     public static getInstance(context: vscode.ExtensionContext): GistService {
@@ -27,8 +143,71 @@ export class GistService {
         return GistService.instance;
     }
 
+    // Logs a message to the sync in progress; outside of syncs it is shown as an information message unless running quietly
+    private showInfo(message: string): void {
+        if (this.run) {
+            this.syncLog.info(message);
+        } else if (!this.silent) {
+            vscode.window.showInformationMessage(message);
+        }
+    }
+
+    // Warnings and errors of a sync go to its log and show up in its summary; outside of syncs they are shown right away
+    private showWarning(message: string): void {
+        if (this.run) {
+            this.syncLog.warn(this.run, message);
+        } else {
+            vscode.window.showWarningMessage(message);
+        }
+    }
+
+    private showError(message: string, error?: unknown): void {
+        if (this.run) {
+            this.syncLog.error(this.run, message, error);
+        } else {
+            vscode.window.showErrorMessage(message);
+        }
+    }
+
+    // Records what happened to a setting, extension or file in the sync in progress
+    private addRunItem(group: string, label: string, outcome: SyncItemOutcome, detail?: string): void {
+        if (this.run) {
+            this.syncLog.addItem(this.run, { group, label, outcome, detail });
+        }
+    }
+
+    // Sets the outcome and summary message of the sync in progress
+    private setRunResult(state: Exclude<SyncRunState, 'running'>, summary: string): void {
+        if (this.run) {
+            this.syncLog.setResult(this.run, state, summary);
+        }
+    }
+
+    // Starts logging a sync; returns the sync it interrupts (e.g. the upload that started a download), to be passed to endSyncRun
+    private beginSyncRun(title: string, auto: boolean): SyncRun | undefined {
+        const previousRun = this.run;
+        this.run = this.syncLog.startRun(title, auto);
+        return previousRun;
+    }
+
+    private async endSyncRun(previousRun: SyncRun | undefined): Promise<void> {
+        const run = this.run;
+        this.run = previousRun;
+        if (run) {
+            await this.syncLog.finishRun(run);
+        }
+    }
+
+    // Runs the task after all syncs queued before it: syncs share the logged run and whether messages are shown, and
+    // must not write the Gist at the same time, whether started by the user, auto sync or the upload queue
+    private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.syncQueue.then(task);
+        this.syncQueue = result.catch(() => undefined);
+        return result;
+    }
+
     // Helper function to get the VS Code user configuration directory path
-    private getUserDataPath(): string {
+    public getUserDataPath(): string {
         const platform = os.platform();
         // Read the fork folder name from configuration, default to 'Code'
         const extensionConfig = vscode.workspace.getConfiguration('settingsSave'); // Use the extension ID as section name
@@ -73,12 +252,20 @@ export class GistService {
             return null; // File doesn't exist
         } catch (error) {
             console.error(`Error reading ${fileName}:`, error);
-            vscode.window.showWarningMessage(`Could not read ${fileName}. It will not be included in the backup.`);
+            this.showWarning(`Could not read ${fileName}. It will not be included in the backup.`);
             return null;
         }
     }
 
-    private async getGitHubToken(): Promise<string> {
+    // Gets a GitHub token; when not interactive, only an existing session is used and no sign-in prompt is shown
+    private async getGitHubToken(interactive: boolean = true): Promise<string> {
+        if (!interactive) {
+            const existingSession = await vscode.authentication.getSession('github', ['gist'], { silent: true });
+            if (!existingSession) {
+                throw new Error('Not signed in to GitHub.');
+            }
+            return existingSession.accessToken;
+        }
         try {
             const session = await vscode.authentication.getSession('github', ['gist'], { createIfNone: true });
             if (session) {
@@ -87,7 +274,7 @@ export class GistService {
                 throw new Error('GitHub authentication failed.');
             }
         } catch (error) {
-            vscode.window.showErrorMessage(`GitHub Authentication Error: ${error instanceof Error ? error.message : String(error)}`);
+            this.showError(`GitHub Authentication Error: ${error instanceof Error ? error.message : String(error)}`);
             throw error; // Re-throw the error to be caught by the command handler
         }
     }
@@ -102,48 +289,337 @@ export class GistService {
         return this.readUserConfigFile(KEYBINDINGS_FILENAME);
     }
 
-    // Gets the list of installed (non-builtin) extensions
-    private getInstalledExtensionsList(): string {
-        const extensions = vscode.extensions.all
+    // Gets the installed (non-builtin) extensions with version, pre-release channel and enabled state, without ignored ones if a filter is given
+    private getLocalExtensions(filter?: SyncFilter): ExtensionEntry[] {
+        const extensions: ExtensionEntry[] = vscode.extensions.all
             .filter(extension => !extension.packageJSON.isBuiltin) // Filter out built-in extensions
-            .map(extension => extension.id); // Get only the IDs
-        return JSON.stringify(extensions, null, 2);
+            .map(extension => ({
+                id: extension.id,
+                version: extension.packageJSON.version,
+                preRelease: !!(extension.packageJSON.__metadata?.preRelease ?? extension.packageJSON.__metadata?.isPreReleaseVersion),
+                enabled: true
+            }));
+        // Disabled extensions are missing from vscode.extensions.all, but listed in the extensions folder (where this extension is installed too)
+        for (const installed of readInstalledExtensions(path.dirname(this.context.extensionPath))) {
+            if (!findExtension(extensions, installed.id)) {
+                extensions.push({ ...installed, enabled: false });
+            }
+        }
+        return sortExtensions(extensions.filter(extension => !filter?.isExtensionIgnored(extension.id)));
+    }
+
+    // Gets the extensions manifest (extensions.json) of the installed extensions
+    private getInstalledExtensionsList(filter?: SyncFilter): string {
+        return JSON.stringify(this.getLocalExtensions(filter), null, 2);
+    }
+
+    // 'installMissing', 'pinVersions' or 'mirror'
+    private getExtensionSyncMode(): string {
+        return vscode.workspace.getConfiguration('settingsSave').get<string>('extensions.syncMode', 'installMissing');
+    }
+
+    // 'configurationApi' applies downloaded settings through the configuration API, 'editFile' edits settings.json in place
+    private getApplyMode(): string {
+        return vscode.workspace.getConfiguration('settingsSave').get<string>('applyMode', 'configurationApi');
+    }
+
+    // Gets tasks.json, the snippets and the files listed in settingsSave.additionalFiles
+    private getUserFiles(): UserFiles {
+        const additionalFiles = vscode.workspace.getConfiguration('settingsSave').get<string[]>('additionalFiles') ?? [];
+        // The configuration files are synced on their own
+        return readUserFiles(this.getUserDataPath(), additionalFiles, [USER_SETTINGS_FILENAME, KEYBINDINGS_FILENAME, EXTENSIONS_FILENAME]);
+    }
+
+    // The local configuration files, as stored in backups; the given user files are included as missing (null) if they do not exist
+    private getLocalConfigurationFiles(userFilePaths: string[] = []): BackupFiles {
+        const userFiles = this.getUserFiles();
+        return {
+            [USER_SETTINGS_FILENAME]: this.getUserSettingsContent(),
+            [KEYBINDINGS_FILENAME]: this.getKeybindingsContent(),
+            [EXTENSIONS_FILENAME]: this.getInstalledExtensionsList(),
+            ...Object.fromEntries(userFilePaths.map(relativePath => [relativePath, null])),
+            ...userFiles
+        };
+    }
+
+    // Parses JSON with comments (as written by VS Code), throwing on syntax errors
+    private parseJsonContent<T>(content: string, fileName: string): T {
+        const errors: ParseError[] = [];
+        const result = parseJsonc(content, errors, { allowTrailingComma: true });
+        if (errors.length > 0) {
+            throw new Error(`Invalid JSON in ${fileName}: ${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+        }
+        return (result ?? undefined) as T;
+    }
+
+    private getSyncSnapshot(profile: Profile): SyncSnapshot {
+        return this.context.globalState.get<SyncSnapshot>(this.profileService.getStateKey(SYNC_SNAPSHOT_KEY, profile)) ?? {};
+    }
+
+    // Records the given contents as the last synced state, keeping previous parts that are not provided
+    private async updateSyncSnapshot(profile: Profile, settingsContent: string | null, keybindingsContent: string | null, extensionsContent: string | null, userFiles?: UserFiles): Promise<void> {
+        const snapshot = this.getSyncSnapshot(profile);
+        if (userFiles) {
+            snapshot.userFiles = userFiles;
+        }
+        try {
+            if (extensionsContent !== null) {
+                snapshot.extensions = parseExtensionManifest(this.parseJsonContent<(string | ExtensionEntry)[]>(extensionsContent, EXTENSIONS_FILENAME) ?? []);
+            }
+            if (settingsContent !== null) {
+                snapshot.settings = this.parseJsonContent<SettingsObject>(settingsContent, USER_SETTINGS_FILENAME) ?? {};
+            }
+            if (keybindingsContent !== null) {
+                snapshot.keybindings = this.parseJsonContent<Keybinding[]>(keybindingsContent, KEYBINDINGS_FILENAME) ?? [];
+            }
+        } catch (error) {
+            console.warn('Could not record sync snapshot:', error);
+        }
+        await this.context.globalState.update(this.profileService.getStateKey(SYNC_SNAPSHOT_KEY, profile), snapshot);
+    }
+
+    // Settings as compared on every side (local, synced and remote): with the values of this platform's settings block
+    // applied, as a download writes them, and without ignored settings
+    private prepareSettings(settings: SettingsObject, filter: SyncFilter): SettingsObject {
+        return filter.filterSettings(applyPlatformSettings(settings, getCurrentPlatform()));
+    }
+
+    // Checks whether the local settings, keybindings, extensions or user files differ from the active profile's last synced state
+    public hasLocalChanges(): boolean {
+        const snapshot = this.getSyncSnapshot(this.profileService.getProfile());
+        const filter = new SyncFilter();
+        try {
+            const localSettings = this.prepareSettings(this.parseJsonContent<SettingsObject>(this.getUserSettingsContent() ?? '{}', USER_SETTINGS_FILENAME) ?? {}, filter);
+            const localKeybindings = this.parseJsonContent<Keybinding[]>(this.getKeybindingsContent() ?? '[]', KEYBINDINGS_FILENAME) ?? [];
+            // Only installs and removals count: versions and enabled state may legitimately differ between machines
+            // (without pinned versions, or where an extension cannot be toggled), and would otherwise be uploaded back and forth
+            const extensionIds = (extensions: ExtensionEntry[]) => extensions.map(extension => extension.id.toLowerCase()).filter(id => !filter.isExtensionIgnored(id)).sort();
+            const localExtensions = extensionIds(this.getLocalExtensions(filter));
+            // Redacted secrets count as unchanged
+            const syncedSettings = restoreRedactedValues(this.prepareSettings(snapshot.settings ?? {}, filter), localSettings);
+            return !isDeepEqual(localSettings, syncedSettings)
+                || !isDeepEqual(localKeybindings, snapshot.keybindings ?? [])
+                || !isDeepEqual(localExtensions, extensionIds(parseExtensionManifest(snapshot.extensions ?? [])))
+                || !isDeepEqual(this.getUserFiles(), snapshot.userFiles ?? {});
+        } catch (error) {
+            // A half-written file is not worth uploading; the next change will trigger another check
+            console.warn('Could not compare local configuration with the last synced state:', error);
+            return false;
+        }
+    }
+
+    private async updateSyncMarker(profile: Profile, gistId: string, stored: StoredFiles): Promise<void> {
+        const marker: SyncMarker | undefined = stored.revision ? { gistId, revision: stored.revision, fingerprint: this.getProfileFingerprint(profile, stored.files) } : undefined;
+        await this.context.globalState.update(this.profileService.getStateKey(SYNC_MARKER_KEY, profile), marker);
+    }
+
+    // Hash of the stored files that belong to the profile. Profiles sharing a Gist change its revision for each other,
+    // so a new revision only counts as a change of the profile if its own files changed.
+    private getProfileFingerprint(profile: Profile, gistFiles: GistFiles): string {
+        const prefix = this.profileService.getFilePrefix(profile);
+        const ownFileNames = [USER_SETTINGS_FILENAME, EXTENSIONS_FILENAME, KEYBINDINGS_FILENAME, SYNC_INFO_FILENAME, ...SUPPORTED_PLATFORMS.map(getPlatformKeybindingsFileName)];
+        const fileNames = Object.keys(gistFiles)
+            .filter(fileName => fileName.startsWith(prefix))
+            .filter(fileName => ownFileNames.includes(fileName.substring(prefix.length)) || fromStorageFileName(fileName.substring(prefix.length)) !== undefined)
+            .sort();
+        const hash = crypto.createHash('sha256');
+        for (const fileName of fileNames) {
+            hash.update(JSON.stringify([fileName, gistFiles[fileName]?.content ?? '']));
+        }
+        return hash.digest('hex');
+    }
+
+    // True if the stored files are what this machine last uploaded or downloaded for the profile: the same revision,
+    // or a later one written for another profile sharing the Gist
+    private isLastSyncedRevision(profile: Profile, gistId: string, stored: StoredFiles): boolean {
+        const marker = this.context.globalState.get<SyncMarker>(this.profileService.getStateKey(SYNC_MARKER_KEY, profile));
+        if (!marker || marker.gistId !== gistId) {
+            return false;
+        }
+        return marker.revision === stored.revision || (!!marker.fingerprint && marker.fingerprint === this.getProfileFingerprint(profile, stored.files));
+    }
+
+    // Checks whether the active profile's Gist was changed (by another machine) since the last sync; never prompts for sign-in
+    public async hasRemoteChanges(): Promise<boolean> {
+        const profile = this.profileService.getProfile();
+        const gistId = this.getEffectiveGistId(profile);
+        if (!gistId) {
+            return false;
+        }
+        const storage = await this.getStorage(false);
+        const current = await storage.read(gistId);
+        if (!this.isLastSyncedRevision(profile, gistId, current)) {
+            return true;
+        }
+        // A changed baseline changes the effective settings as well
+        const baselineRevisions = this.context.globalState.get<{ [gistId: string]: string }>(BASELINE_REVISIONS_KEY) ?? {};
+        for (const source of this.getBaselineSources()) {
+            const baseline = await storage.read(source.gistId);
+            if (baseline.revision !== baselineRevisions[source.gistId]) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // The configured team baselines, lowest priority first
+    private getBaselineSources(): BaselineSource[] {
+        const baselines = vscode.workspace.getConfiguration('settingsSave').get<BaselineSource[]>('baselines') ?? [];
+        return baselines
+            .filter(baseline => typeof baseline?.gistId === 'string' && baseline.gistId.trim())
+            .map(baseline => ({ name: baseline.name?.trim() || `Baseline ${baseline.gistId.trim()}`, gistId: baseline.gistId.trim() }));
+    }
+
+    // Reads the team baselines in order, with their current revisions
+    private async readBaselineLayers(storage: StorageProvider, sources: BaselineSource[]): Promise<{ layers: SettingsLayer[], revisions: { [gistId: string]: string | undefined } }> {
+        const layers: SettingsLayer[] = [];
+        const revisions: { [gistId: string]: string | undefined } = {};
+        for (const source of sources) {
+            let stored;
+            try {
+                stored = await storage.read(source.gistId);
+            } catch (error: any) {
+                // Rethrown as a plain error, so the personal Gist ID is not taken for the invalid one
+                const errorMessage = getErrorMessage(error);
+                throw new Error(`Could not read baseline "${source.name}": ${errorMessage}`);
+            }
+            // Baselines use the plain file names, like the default profile
+            const files = this.fromGistFiles(this.profileService.getProfile(DEFAULT_PROFILE_NAME), stored.files);
+            if (Object.values(files).some(file => isEncryptedContent(file.content ?? ''))) {
+                throw new Error(`Baseline "${source.name}" is encrypted. Baselines must be readable by everyone who uses them.`);
+            }
+            layers.push({ name: source.name, baseline: true, ...this.parseLayerContents(files[USER_SETTINGS_FILENAME]?.content, files[EXTENSIONS_FILENAME]?.content) });
+            revisions[source.gistId] = stored.revision;
+        }
+        return { layers, revisions };
+    }
+
+    private parseLayerContents(settingsContent: string | null | undefined, extensionsContent: string | null | undefined): { settings: SettingsObject, extensions: ExtensionEntry[] } {
+        return {
+            settings: settingsContent ? this.parseJsonContent<SettingsObject>(settingsContent, USER_SETTINGS_FILENAME) ?? {} : {},
+            extensions: extensionsContent ? parseExtensionManifest(this.parseJsonContent<(string | ExtensionEntry)[]>(extensionsContent, EXTENSIONS_FILENAME) ?? []) : []
+        };
+    }
+
+    private getPersonalLayerName(profile: Profile): string {
+        return this.profileService.isDefaultProfile(profile) ? 'Personal' : `Personal (${profile.name})`;
+    }
+
+    // Replaces the downloaded settings and extensions with the result of layering them over the baselines; returns the
+    // settings the baselines lock
+    private layerOverBaselines(files: GistFiles, baselineLayers: SettingsLayer[], profile: Profile): Set<string> {
+        const personalLayer: SettingsLayer = {
+            name: this.getPersonalLayerName(profile),
+            baseline: false,
+            ...this.parseLayerContents(files[USER_SETTINGS_FILENAME]?.content, files[EXTENSIONS_FILENAME]?.content)
+        };
+        const layered = mergeLayers([...baselineLayers, personalLayer]);
+        files[USER_SETTINGS_FILENAME] = { content: JSON.stringify(layered.settings, null, 4) };
+        files[EXTENSIONS_FILENAME] = { content: JSON.stringify(layered.extensions, null, 2) };
+        return layered.lockedKeys;
+    }
+
+    // Lists every effective setting with the layer (baseline, personal Gist or local) it comes from
+    public async showSettingSources(): Promise<void> {
+        const profile = this.profileService.getProfile();
+        let effectiveGistId: string | undefined;
+        try {
+            const storage = await this.getStorage(true);
+            effectiveGistId = this.getEffectiveGistId(profile);
+            const layers = (await this.readBaselineLayers(storage, this.getBaselineSources())).layers;
+            if (effectiveGistId) {
+                const personalFiles = this.fromGistFiles(profile, await this.decryptGistFiles((await storage.read(effectiveGistId)).files, true));
+                layers.push({
+                    name: this.getPersonalLayerName(profile),
+                    baseline: false,
+                    ...this.parseLayerContents(personalFiles[USER_SETTINGS_FILENAME]?.content, personalFiles[EXTENSIONS_FILENAME]?.content)
+                });
+            }
+            const layered = mergeLayers(layers);
+            const localSettings = this.parseJsonContent<SettingsObject>(this.getUserSettingsContent() ?? '{}', USER_SETTINGS_FILENAME) ?? {};
+
+            const keys = [...new Set([...Object.keys(layered.settings), ...Object.keys(localSettings)])].sort();
+            const describeSource = (key: string) => {
+                const source = layered.sources[key];
+                if (!source) {
+                    return 'Local only';
+                }
+                const layerName = source.locked ? `${source.layer} (locked)` : source.layer;
+                return isDeepEqual(localSettings[key], layered.settings[key]) ? layerName : `Local, overriding ${layerName}`;
+            };
+            const selected = await vscode.window.showQuickPick(keys.map(key => ({
+                label: key,
+                description: describeSource(key),
+                detail: JSON.stringify(key in localSettings ? localSettings[key] : layered.settings[key]),
+                key: key
+            })), { placeHolder: 'Effective settings and where they come from (select one to open it in the Settings editor)', matchOnDescription: true });
+            if (selected) {
+                await vscode.commands.executeCommand('workbench.action.openSettings', selected.key);
+            }
+        } catch (error: any) {
+            console.error('Error showing setting sources:', error);
+            const errorMessage = getErrorMessage(error);
+            vscode.window.showErrorMessage(`Error showing setting sources: ${errorMessage}`);
+            await this.handleInvalidGistId(error, effectiveGistId, profile);
+        }
     }
 
 
     // --- Application Logic ---
 
-    // Applies settings from the downloaded content
-    private async applyUserSettings(settingsContent: string): Promise<void> {
+    // Applies the given settings to the user scope; a value of undefined removes the setting. Ignored and machine-specific settings are left alone.
+    // Returns the keys that were skipped (e.g. settings of extensions that are not installed yet) or failed.
+    private async applyUserSettings(settingsObject: SettingsObject): Promise<string[]> {
         let appliedSettingsCount = 0;
         let skippedSettings: string[] = [];
         try {
-            const settingsObject = JSON.parse(settingsContent);
             const config = vscode.workspace.getConfiguration(); // Get config for the root
+            const filter = new SyncFilter();
+            const editFile = this.getApplyMode() === 'editFile';
+            const fileUpdates: SettingsObject = {};
 
             // Use Promise.all to run updates concurrently, but process results sequentially for logging
             const updatePromises = [];
 
             for (const key in settingsObject) {
                 if (Object.prototype.hasOwnProperty.call(settingsObject, key)) {
-                    const value = settingsObject[key];
+                    if (filter.isSettingIgnored(key)) {
+                        this.addRunItem(USER_SETTINGS_FILENAME, key, 'skipped', 'ignored setting');
+                        continue;
+                    }
+                    let value = settingsObject[key];
+                    if (containsSecretPlaceholder(value)) {
+                        // Secrets redacted on upload keep their local value
+                        value = restoreRedactedValue(value, config.inspect(key)?.globalValue);
+                        if (value === undefined) {
+                            this.addRunItem(USER_SETTINGS_FILENAME, key, 'skipped', 'redacted in the Gist, local value kept');
+                            continue;
+                        }
+                    }
+                    if (editFile) {
+                        // Written to settings.json below, all at once
+                        fileUpdates[key] = value;
+                        continue;
+                    }
                     // Push the update attempt into an array
                     updatePromises.push(
                         (async () => {
                             try {
                                 // Attempt to update the setting globally (User scope)
                                 await config.update(key, value, vscode.ConfigurationTarget.Global);
-                                // console.log(`Successfully applied setting: ${key}`);
+                                this.addRunItem(USER_SETTINGS_FILENAME, key, 'applied', value === undefined ? 'removed' : undefined);
                                 return { success: true, key: key };
                             } catch (error: any) {
                                 // Check if the error is specifically about an unregistered configuration
                                 if (error.message && error.message.includes('not a registered configuration')) {
                                     console.warn(`Skipping unregistered setting: ${key}`);
+                                    this.addRunItem(USER_SETTINGS_FILENAME, key, 'skipped', 'not a registered setting (likely a missing extension)');
                                     skippedSettings.push(key);
                                     return { success: false, key: key, skipped: true };
                                 } else {
                                     // Log other errors and treat as failure
                                     console.error(`Failed to apply setting: ${key}`, error);
+                                    this.addRunItem(USER_SETTINGS_FILENAME, key, 'failed', error.message);
                                     return { success: false, key: key, skipped: false, error: error };
                                 }
                             }
@@ -152,6 +628,10 @@ export class GistService {
                 }
             }
 
+            if (Object.keys(fileUpdates).length > 0) {
+                appliedSettingsCount += this.editSettingsFile(fileUpdates);
+            }
+
             // Wait for all update attempts to settle
             const results = await Promise.all(updatePromises);
 
@@ -167,87 +647,1051 @@ export class GistService {
 
             // Report summary
             if (appliedSettingsCount > 0) {
-                vscode.window.showInformationMessage(`Successfully applied ${appliedSettingsCount} user settings.`);
+                this.showInfo(`Successfully applied ${appliedSettingsCount} user settings.`);
             }
             if (skippedSettings.length > 0) {
-                vscode.window.showWarningMessage(`Skipped ${skippedSettings.length} settings because they are not registered (likely missing extensions). Check logs for details.`);
+                this.showWarning(`Skipped ${skippedSettings.length} settings because they are not registered (likely missing extensions).`);
                 console.warn('Skipped unregistered settings:', skippedSettings);
             }
             if (failedSettings.length > 0) {
-                vscode.window.showErrorMessage(`Failed to apply ${failedSettings.length} settings due to errors. Check logs for details.`);
+                this.showError(`Failed to apply ${failedSettings.length} settings due to errors.`);
                 console.error('Failed settings:', failedSettings);
             }
             if (appliedSettingsCount === 0 && skippedSettings.length === 0 && failedSettings.length === 0) {
-                vscode.window.showInformationMessage('No applicable user settings found in the downloaded file.');
+                this.showInfo('User settings are already up to date.');
             }
+            return [...skippedSettings, ...failedSettings.map(failed => failed.key)];
+        } catch (error) {
+            console.error('Error applying user settings:', error);
+            this.showError(`Failed to apply user settings: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            return Object.keys(settingsObject);
+        }
+    }
 
-        } catch (parseError) {
-            console.error('Error parsing downloaded user settings JSON:', parseError);
-            vscode.window.showErrorMessage(`Failed to parse user settings file: ${parseError instanceof Error ? parseError.message : 'Invalid JSON'}`);
+    // Writes the settings into settings.json itself, keeping its comments and grouping (and, unlike the configuration API,
+    // settings of extensions that are not installed yet); returns the number of settings written
+    private editSettingsFile(settings: SettingsObject): number {
+        const filePath = path.join(this.getUserDataPath(), USER_SETTINGS_FILENAME);
+        const content = this.getUserSettingsContent() ?? '{}';
+        // A file that does not parse is left alone rather than made worse
+        this.parseJsonContent<SettingsObject>(content, USER_SETTINGS_FILENAME);
+        fs.writeFileSync(filePath, updateSettingsContent(content, settings), 'utf8');
+        for (const [key, value] of Object.entries(settings)) {
+            this.addRunItem(USER_SETTINGS_FILENAME, key, 'applied', value === undefined ? 'removed' : undefined);
         }
+        return Object.keys(settings).length;
     }
 
-    // Applies keybindings by overwriting the keybindings.json file
-    private async applyKeybindings(keybindingsContent: string): Promise<void> {
+    // Applies keybindings by editing keybindings.json into the merged list, keeping its comments
+    private async applyKeybindings(keybindings: Keybinding[]): Promise<void> {
         try {
             const filePath = path.join(this.getUserDataPath(), KEYBINDINGS_FILENAME);
-            fs.writeFileSync(filePath, keybindingsContent, 'utf8');
-            vscode.window.showInformationMessage(`Keybindings written to ${KEYBINDINGS_FILENAME}. You might need to reload VS Code.`);
+            fs.writeFileSync(filePath, updateKeybindingsContent(this.getKeybindingsContent() ?? '[]', keybindings), 'utf8');
+            this.addRunItem(KEYBINDINGS_FILENAME, KEYBINDINGS_FILENAME, 'applied', `${keybindings.length} keybindings`);
+            this.showInfo(`Keybindings written to ${KEYBINDINGS_FILENAME}. You might need to reload VS Code.`);
         } catch (error) {
             console.error('Error applying keybindings:', error);
-            vscode.window.showErrorMessage(`Failed to write keybindings file: ${error instanceof Error ? error.message : 'Unknown error'}. Please check permissions.`);
+            this.addRunItem(KEYBINDINGS_FILENAME, KEYBINDINGS_FILENAME, 'failed', error instanceof Error ? error.message : undefined);
+            this.showError(`Failed to write keybindings file: ${error instanceof Error ? error.message : 'Unknown error'}. Please check permissions.`);
         }
     }
 
-    // Installs extensions from the downloaded list that are not already installed
-    private async applyExtensions(extensionsContent: string): Promise<void> {
+    // Installs extensions from the downloaded list that are not already installed (except ignored ones), at the listed
+    // version when pinning versions, and uninstalls the given extensions
+    private async applyExtensions(extensions: ExtensionEntry[], uninstallExtensions: string[] = []): Promise<void> {
         try {
-            const extensionsToInstall: string[] = JSON.parse(extensionsContent);
-            const installedExtensions = vscode.extensions.all.map(ext => ext.id);
-            const missingExtensions = extensionsToInstall.filter(id => !installedExtensions.includes(id));
+            const pinVersions = this.getExtensionSyncMode() !== 'installMissing';
+            const filter = new SyncFilter();
+            const localExtensions = this.getLocalExtensions();
+            const extensionsToInstall = extensions.filter(extension => {
+                const localExtension = findExtension(localExtensions, extension.id);
+                return !filter.isExtensionIgnored(extension.id) && (!localExtension || (pinVersions && !!extension.version && localExtension.version !== extension.version));
+            });
+            const extensionsToUninstall = uninstallExtensions.filter(id => !filter.isExtensionIgnored(id) && findExtension(localExtensions, id));
 
-            if (missingExtensions.length === 0) {
-                vscode.window.showInformationMessage('All extensions from the backup are already installed.');
-                return;
+            if (extensionsToInstall.length === 0 && extensionsToUninstall.length === 0) {
+                this.showInfo('All extensions from the backup are already installed.');
+            } else {
+                this.showInfo(`Found ${extensionsToInstall.length} extensions to install and ${extensionsToUninstall.length} to uninstall...`);
+                const total = extensionsToInstall.length + extensionsToUninstall.length;
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Installing Extensions",
+                    cancellable: false
+                }, async (progress) => {
+                    let done = 0;
+                    for (const extension of extensionsToInstall) {
+                        // 'publisher.name@1.2.3' installs that exact version
+                        const installId = pinVersions && extension.version ? `${extension.id}@${extension.version}` : extension.id;
+                        progress.report({ message: `Installing ${installId}... (${++done}/${total})`, increment: 100 / total });
+                        try {
+                            await vscode.commands.executeCommand('workbench.extensions.installExtension', installId, { installPreReleaseVersion: !!extension.preRelease });
+                            this.addRunItem(EXTENSIONS_FILENAME, installId, 'applied', extension.preRelease ? 'installed (pre-release)' : 'installed');
+                        } catch (installError) {
+                            console.error(`Failed to install extension ${installId}:`, installError);
+                            this.addRunItem(EXTENSIONS_FILENAME, installId, 'failed', `install failed: ${installError instanceof Error ? installError.message : String(installError)}`);
+                        }
+                    }
+                    for (const extensionId of extensionsToUninstall) {
+                        progress.report({ message: `Uninstalling ${extensionId}... (${++done}/${total})`, increment: 100 / total });
+                        try {
+                            await vscode.commands.executeCommand('workbench.extensions.uninstallExtension', extensionId);
+                            this.addRunItem(EXTENSIONS_FILENAME, extensionId, 'applied', 'uninstalled');
+                        } catch (uninstallError) {
+                            console.error(`Failed to uninstall extension ${extensionId}:`, uninstallError);
+                            this.addRunItem(EXTENSIONS_FILENAME, extensionId, 'failed', `uninstall failed: ${uninstallError instanceof Error ? uninstallError.message : String(uninstallError)}`);
+                        }
+                    }
+                });
+                this.showInfo('Extension installation process completed. Some installs might require a reload.');
+            }
+
+            if (pinVersions) {
+                this.reviewExtensionStates(extensions.filter(extension => !filter.isExtensionIgnored(extension.id)));
+            }
+        } catch (error) {
+            console.error('Error applying extensions:', error);
+            this.showError(`Failed to apply extensions list: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+        }
+    }
+
+    // VS Code does not let extensions enable or disable other extensions, so differences in the enabled state
+    // are listed for the user, who can open each extension from the list to change it
+    private reviewExtensionStates(extensions: ExtensionEntry[]): void {
+        const localExtensions = this.getLocalExtensions();
+        const differences = extensions.filter(extension => {
+            const localExtension = findExtension(localExtensions, extension.id);
+            return extension.enabled !== undefined && localExtension && localExtension.enabled !== extension.enabled;
+        });
+        if (differences.length === 0) {
+            return;
+        }
+        this.showInfo(`Extensions with a different enabled state than in the Gist: ${differences.map(extension => extension.id).join(', ')}`);
+        if (this.silent) {
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { extensionId: string }>();
+        quickPick.title = 'Extensions to enable or disable';
+        quickPick.placeholder = 'These extensions have a different enabled state in the Gist. Select one to open it and change its state.';
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = differences.map(extension => ({
+            label: extension.id,
+            description: extension.enabled ? 'enable' : 'disable',
+            extensionId: extension.id
+        }));
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.activeItems[0];
+            if (selected) {
+                vscode.commands.executeCommand('extension.open', selected.extensionId);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    // Lets the user confirm which local extensions that are not in the Gist to uninstall (mirror mode); returns the IDs
+    private async pickExtensionsToUninstall(candidates: { id: string, removedRemotely: boolean }[]): Promise<string[]> {
+        const items = candidates.map(candidate => ({
+            label: candidate.id,
+            description: candidate.removedRemotely ? 'removed on another machine' : 'installed here since the last sync',
+            picked: candidate.removedRemotely,
+            extensionId: candidate.id
+        }));
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: 'These extensions are not in the Gist. Select the ones to uninstall.'
+        });
+        return selected?.map(item => item.extensionId) ?? [];
+    }
+
+    // Writes (or, for undefined contents, deletes) user files in the user data folder
+    private applyUserFiles(userFiles: { [relativePath: string]: string | undefined }): void {
+        const userDataPath = this.getUserDataPath();
+        const failedFiles: string[] = [];
+        for (const [relativePath, content] of Object.entries(userFiles)) {
+            try {
+                writeUserFile(userDataPath, relativePath, content);
+                this.addRunItem(USER_FILES_GROUP, relativePath, 'applied', content === undefined ? 'deleted' : undefined);
+            } catch (error) {
+                console.error(`Failed to write ${relativePath}:`, error);
+                this.addRunItem(USER_FILES_GROUP, relativePath, 'failed', error instanceof Error ? error.message : undefined);
+                failedFiles.push(relativePath);
+            }
+        }
+        if (failedFiles.length > 0) {
+            this.showWarning(`Could not write ${failedFiles.join(', ')}.`);
+        }
+    }
+
+    // Parses the Gist files and local state and runs the three-way merge against the last synced snapshot
+    private buildDownloadPlan(files: GistFiles, profile: Profile, lockedKeys: Set<string>): DownloadPlan {
+        const snapshot = this.getSyncSnapshot(profile);
+        const plan: DownloadPlan = { localSettings: {}, localKeybindings: [], localUserFiles: {} };
+        // Ignored settings and extensions take no part in the merge, so they are neither changed nor removed locally
+        const filter = new SyncFilter();
+
+        const remoteSettingsContent = files[USER_SETTINGS_FILENAME]?.content;
+        if (remoteSettingsContent) {
+            const prepareSettings = (settings: SettingsObject) => this.prepareSettings(settings, filter);
+            plan.localSettings = prepareSettings(this.parseJsonContent<SettingsObject>(this.getUserSettingsContent() ?? '{}', USER_SETTINGS_FILENAME) ?? {});
+            // Redacted secrets take the local value, so they are never changed or removed by a download
+            const prepareSyncedSettings = (settings: SettingsObject) => restoreRedactedValues(prepareSettings(settings), plan.localSettings);
+            plan.remoteSettings = prepareSyncedSettings(this.parseJsonContent<SettingsObject>(remoteSettingsContent, USER_SETTINGS_FILENAME) ?? {});
+            plan.settingsMerge = mergeSettings(prepareSyncedSettings(snapshot.settings ?? {}), plan.localSettings, plan.remoteSettings);
+            // Settings locked by a baseline take its value even over local edits, so they never conflict
+            for (const key of lockedKeys) {
+                if (key in plan.remoteSettings) {
+                    plan.settingsMerge.merged.set(key, plan.remoteSettings[key]);
+                }
+            }
+            plan.settingsMerge.conflicts = plan.settingsMerge.conflicts.filter(conflict => !lockedKeys.has(conflict.id));
+        }
+
+        const remoteKeybindingsContent = files[KEYBINDINGS_FILENAME]?.content;
+        if (remoteKeybindingsContent) {
+            plan.localKeybindings = this.parseJsonContent<Keybinding[]>(this.getKeybindingsContent() ?? '[]', KEYBINDINGS_FILENAME) ?? [];
+            plan.remoteKeybindings = this.parseJsonContent<Keybinding[]>(remoteKeybindingsContent, KEYBINDINGS_FILENAME) ?? [];
+            plan.keybindingsMerge = mergeKeybindings(snapshot.keybindings ?? [], plan.localKeybindings, plan.remoteKeybindings);
+        }
+
+        const remoteExtensionsContent = files[EXTENSIONS_FILENAME]?.content;
+        if (remoteExtensionsContent) {
+            const remoteExtensions = parseExtensionManifest(this.parseJsonContent<(string | ExtensionEntry)[]>(remoteExtensionsContent, EXTENSIONS_FILENAME) ?? []);
+            plan.remoteExtensions = remoteExtensions.filter(extension => !filter.isExtensionIgnored(extension.id));
+            if (this.getExtensionSyncMode() === 'mirror') {
+                // Extensions that were synced before were removed on another machine; without a last sync (a new machine), all of them were
+                const syncedExtensions = snapshot.extensions && parseExtensionManifest(snapshot.extensions);
+                plan.uninstallCandidates = this.getLocalExtensions(filter)
+                    .filter(extension => !findExtension(remoteExtensions, extension.id))
+                    .map(extension => ({ id: extension.id, removedRemotely: !syncedExtensions || !!findExtension(syncedExtensions, extension.id) }));
+            }
+        }
+
+        // User files merge as a whole: a file changed on both sides is a conflict
+        const remoteUserFiles = fromStorageFiles(files);
+        if (Object.keys(remoteUserFiles).length > 0 || snapshot.userFiles) {
+            plan.localUserFiles = this.getUserFiles();
+            plan.remoteUserFiles = remoteUserFiles;
+            plan.userFilesMerge = mergeSettings(snapshot.userFiles ?? {}, plan.localUserFiles, plan.remoteUserFiles);
+        }
+
+        return plan;
+    }
+
+    // Returns the settings that have to change to turn the local settings into the given result
+    private getChangedSettings(localSettings: SettingsObject, result: Map<string, any>): SettingsObject {
+        const changedSettings: SettingsObject = {};
+        for (const [key, value] of result) {
+            if (!isDeepEqual(value, localSettings[key])) {
+                changedSettings[key] = value;
+            }
+        }
+        for (const key of Object.keys(localSettings)) {
+            if (!result.has(key)) {
+                changedSettings[key] = undefined;
+            }
+        }
+        return changedSettings;
+    }
+
+    // Resolves the merge (asking about conflicts unless not interactive) into everything a regular download applies
+    private async resolveDownloadPlan(plan: DownloadPlan, interactive: boolean): Promise<DownloadSelection | undefined> {
+        const conflictCount = (plan.settingsMerge?.conflicts.length ?? 0) + (plan.keybindingsMerge?.conflicts.length ?? 0) + (plan.userFilesMerge?.conflicts.length ?? 0);
+        if (!interactive && conflictCount > 0) {
+            this.setRunResult('warning', `The Gist has ${conflictCount} changes that conflict with local edits. Run "Download Settings from GitHub Gist" to resolve them.`);
+            return undefined;
+        }
+        const resolution = await this.resolveMergeConflicts(plan.settingsMerge?.conflicts ?? [], plan.keybindingsMerge?.conflicts ?? [], plan.userFilesMerge?.conflicts ?? []);
+        if (!resolution) {
+            return undefined;
+        }
+        const uninstallExtensions = interactive && plan.uninstallCandidates?.length ? await this.pickExtensionsToUninstall(plan.uninstallCandidates) : undefined;
+        return {
+            settings: plan.settingsMerge && this.getChangedSettings(plan.localSettings, resolveConflicts(plan.settingsMerge, resolution.settings)),
+            keybindings: plan.keybindingsMerge && [...resolveConflicts(plan.keybindingsMerge, resolution.keybindings).values()],
+            extensions: plan.remoteExtensions,
+            uninstallExtensions: uninstallExtensions,
+            userFiles: plan.userFilesMerge && this.getChangedSettings(plan.localUserFiles, resolveConflicts(plan.userFilesMerge, resolution.userFiles))
+        };
+    }
+
+    // Shows every difference between the Gist and the local state, grouped by file, and lets the user pick what to apply
+    private async pickDownloadChanges(plan: DownloadPlan, files: GistFiles): Promise<DownloadSelection | undefined> {
+        type PreviewItem = vscode.QuickPickItem & { fileName?: string, difference?: EntryDifference<any>, extension?: ExtensionEntry, uninstallExtensionId?: string };
+        type DiffButton = vscode.QuickInputButton & { fileName: string };
+
+        const describe = (value: any) => value === undefined ? '(not set)' : JSON.stringify(value);
+        const describeChange = (difference: EntryDifference<any>) => difference.remote === undefined ? 'remove' : difference.local === undefined ? 'add' : 'change';
+        const items: PreviewItem[] = [];
+        const addGroup = (fileName: string, groupItems: PreviewItem[]) => {
+            if (groupItems.length > 0) {
+                items.push({ label: fileName, kind: vscode.QuickPickItemKind.Separator }, ...groupItems);
+            }
+        };
+
+        // Changes the merge would take from the Gist are preselected; local edits and conflicts are not
+        if (plan.remoteSettings && plan.settingsMerge) {
+            const merged = plan.settingsMerge.merged;
+            addGroup(USER_SETTINGS_FILENAME, diffSettings(plan.localSettings, plan.remoteSettings).map(difference => ({
+                label: difference.label,
+                description: describeChange(difference),
+                detail: `Local: ${describe(difference.local)}  |  Gist: ${describe(difference.remote)}`,
+                picked: isDeepEqual(merged.get(difference.id), difference.remote),
+                fileName: USER_SETTINGS_FILENAME,
+                difference: difference
+            })));
+        }
+        if (plan.remoteKeybindings && plan.keybindingsMerge) {
+            const merged = plan.keybindingsMerge.merged;
+            addGroup(KEYBINDINGS_FILENAME, diffKeybindings(plan.localKeybindings, plan.remoteKeybindings).map(difference => ({
+                label: difference.label,
+                description: describeChange(difference),
+                detail: difference.remote === undefined ? 'Only in local keybindings' : difference.local === undefined ? 'Only in Gist' : `Local: ${describe(difference.local)}  |  Gist: ${describe(difference.remote)}`,
+                picked: isDeepEqual(merged.get(difference.id), difference.remote),
+                fileName: KEYBINDINGS_FILENAME,
+                difference: difference
+            })));
+        }
+        if (plan.remoteExtensions) {
+            const pinVersions = this.getExtensionSyncMode() !== 'installMissing';
+            const localExtensions = this.getLocalExtensions();
+            const extensionItems: PreviewItem[] = [];
+            for (const extension of plan.remoteExtensions) {
+                const localExtension = findExtension(localExtensions, extension.id);
+                if (!localExtension) {
+                    extensionItems.push({ label: extension.id, description: pinVersions && extension.version ? `install ${extension.version}` : 'install', picked: true, extension: extension });
+                } else if (pinVersions && extension.version && localExtension.version !== extension.version) {
+                    extensionItems.push({ label: extension.id, description: `${localExtension.version} → ${extension.version}`, picked: true, extension: extension });
+                }
+            }
+            for (const candidate of plan.uninstallCandidates ?? []) {
+                extensionItems.push({
+                    label: candidate.id,
+                    description: 'uninstall',
+                    detail: candidate.removedRemotely ? 'Removed on another machine' : 'Installed here since the last sync',
+                    picked: candidate.removedRemotely,
+                    uninstallExtensionId: candidate.id
+                });
+            }
+            addGroup(EXTENSIONS_FILENAME, extensionItems);
+        }
+
+        if (plan.remoteUserFiles && plan.userFilesMerge) {
+            const merged = plan.userFilesMerge.merged;
+            addGroup(USER_FILES_GROUP, diffSettings(plan.localUserFiles, plan.remoteUserFiles).map(difference => ({
+                label: difference.label,
+                description: describeChange(difference),
+                detail: difference.remote === undefined ? 'Only local' : difference.local === undefined ? 'Only in Gist' : 'Changed',
+                picked: merged.get(difference.id) === difference.remote,
+                fileName: USER_FILES_GROUP,
+                difference: difference
+            })));
+        }
+
+        if (items.length === 0) {
+            this.showInfo('Local configuration already matches the Gist.');
+            return {};
+        }
+
+        const quickPick = vscode.window.createQuickPick<PreviewItem>();
+        quickPick.title = 'Preview Download';
+        quickPick.placeholder = 'Select the changes to apply from the Gist';
+        quickPick.canSelectMany = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.matchOnDescription = true;
+        quickPick.items = items;
+        quickPick.selectedItems = items.filter(item => item.picked);
+        const diffButtons: DiffButton[] = [USER_SETTINGS_FILENAME, KEYBINDINGS_FILENAME]
+            .filter(fileName => files[fileName]?.content)
+            .map(fileName => ({ iconPath: new vscode.ThemeIcon('diff'), tooltip: `Compare ${fileName} (Local ↔ Gist)`, fileName: fileName }));
+        quickPick.buttons = diffButtons;
+
+        const selectedItems = await new Promise<readonly PreviewItem[] | undefined>(resolve => {
+            quickPick.onDidTriggerButton(button => {
+                const fileName = (button as DiffButton).fileName;
+                this.showGistDiff(fileName, files[fileName].content ?? '', 'Gist');
+            });
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+        if (!selectedItems) {
+            return undefined;
+        }
+
+        const selectedDifferences = (fileName: string) => selectedItems.filter(item => item.fileName === fileName).map(item => item.difference!);
+        const settingsDifferences = selectedDifferences(USER_SETTINGS_FILENAME);
+        const keybindingDifferences = selectedDifferences(KEYBINDINGS_FILENAME);
+        const userFileDifferences = selectedDifferences(USER_FILES_GROUP);
+        const extensions = selectedItems.filter(item => item.extension).map(item => item.extension!);
+        const uninstallExtensions = selectedItems.filter(item => item.uninstallExtensionId).map(item => item.uninstallExtensionId!);
+        return {
+            settings: settingsDifferences.length > 0 ? Object.fromEntries(settingsDifferences.map(difference => [difference.id, difference.remote])) : undefined,
+            userFiles: userFileDifferences.length > 0 ? Object.fromEntries(userFileDifferences.map(difference => [difference.id, difference.remote])) : undefined,
+            keybindings: keybindingDifferences.length > 0 ? [...takeRemoteValues(keybindingEntries(plan.localKeybindings), keybindingDifferences).values()] : undefined,
+            extensions: extensions.length > 0 ? extensions : undefined,
+            uninstallExtensions: uninstallExtensions.length > 0 ? uninstallExtensions : undefined
+        };
+    }
+
+    // Opens a diff editor comparing a local configuration file (or the given local content) with the given remote content
+    private async showGistDiff(fileName: string, remoteContent: string, remoteLabel: string, localContent?: string): Promise<void> {
+        const contentProvider = GistContentProvider.getInstance();
+        const localPath = path.join(this.getUserDataPath(), fileName);
+        const localUri = localContent === undefined && fs.existsSync(localPath) ? vscode.Uri.file(localPath) : contentProvider.setContent(`Local/${fileName}`, localContent ?? '');
+        const remoteUri = contentProvider.setContent(`${remoteLabel}/${fileName}`, remoteContent);
+        await vscode.commands.executeCommand('vscode.diff', localUri, remoteUri, `${fileName} (Local ↔ ${remoteLabel})`);
+    }
+
+    // Applies the downloaded Gist files, either merged automatically or through the preview selection; returns false if nothing was applied because of cancellation or conflicts
+    private async applyGistFiles(files: GistFiles, options: DownloadOptions, profile: Profile, lockedKeys: Set<string>): Promise<boolean> {
+        const plan = this.buildDownloadPlan(files, profile, lockedKeys);
+        const selection = options.preview ? await this.pickDownloadChanges(plan, files) : await this.resolveDownloadPlan(plan, !options.auto);
+        if (!selection) {
+            if (!options.auto) {
+                this.setRunResult('cancelled', 'Download cancelled. No changes were applied.');
+            }
+            return false;
+        }
+        let appliedSomething = false;
+
+        // Keep a way back before anything local is changed
+        const hasUserFileChanges = Object.keys(selection.userFiles ?? {}).length > 0;
+        if (selection.settings || selection.keybindings || selection.extensions || selection.uninstallExtensions || hasUserFileChanges) {
+            try {
+                const reason = options.revision ? `Before applying Gist revision ${options.revision.substring(0, 7)}` : 'Before download';
+                BackupService.getInstance(this.context).createBackup(reason, this.getLocalConfigurationFiles(Object.keys(selection.userFiles ?? {})));
+            } catch (error) {
+                throw new Error(`Could not create a local backup, nothing was applied: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        // Apply User Settings
+        let unappliedSettings: string[] = [];
+        if (selection.settings) {
+            this.showInfo('Applying user settings...');
+            unappliedSettings = await this.applyUserSettings(selection.settings);
+            appliedSomething = true;
+        } else if (!plan.remoteSettings) {
+            this.showInfo(`No ${USER_SETTINGS_FILENAME} found in Gist.`);
+        }
+
+        // Apply Keybindings
+        if (selection.keybindings) {
+            if (isDeepEqual(selection.keybindings, plan.localKeybindings)) {
+                this.showInfo('Keybindings are already up to date.');
+                this.addRunItem(KEYBINDINGS_FILENAME, KEYBINDINGS_FILENAME, 'unchanged');
+            } else {
+                this.showInfo('Applying keybindings...');
+                await this.applyKeybindings(selection.keybindings);
             }
+            appliedSomething = true;
+        } else if (!plan.remoteKeybindings) {
+            this.showInfo(`No ${KEYBINDINGS_FILENAME} found in Gist.`);
+        }
+
+        // Apply Extensions
+        if (selection.extensions || selection.uninstallExtensions) {
+            this.showInfo('Checking extensions...');
+            await this.applyExtensions(selection.extensions ?? [], selection.uninstallExtensions);
+            appliedSomething = true;
+        } else if (!plan.remoteExtensions) {
+            this.showInfo(`No ${EXTENSIONS_FILENAME} found in Gist.`);
+        }
+
+        // Apply snippets, tasks and additional files
+        if (selection.userFiles && hasUserFileChanges) {
+            this.showInfo('Applying other files...');
+            this.applyUserFiles(selection.userFiles);
+            appliedSomething = true;
+        }
+
+        // An older revision is applied like a local edit, so the last synced state stays as it is
+        if (!options.revision) {
+            // Settings that could not be applied are recorded with their local value: the next download applies them again
+            // instead of the merge taking them for removed here (and the next upload removing them from the Gist)
+            let settingsContent = files[USER_SETTINGS_FILENAME]?.content || null;
+            if (settingsContent && unappliedSettings.length > 0) {
+                const syncedSettings = this.parseJsonContent<SettingsObject>(settingsContent, USER_SETTINGS_FILENAME) ?? {};
+                settingsContent = JSON.stringify(keepLocalSettings(syncedSettings, plan.localSettings, unappliedSettings, getCurrentPlatform()));
+            }
+            await this.updateSyncSnapshot(profile, settingsContent, files[KEYBINDINGS_FILENAME]?.content || null, files[EXTENSIONS_FILENAME]?.content || null, plan.remoteUserFiles);
+        }
 
-            vscode.window.showInformationMessage(`Found ${missingExtensions.length} extensions to install...`);
+        if (appliedSomething) {
+            this.setRunResult('succeeded', 'Configuration download finished. You may need to reload VS Code for all changes to take effect.');
+        } else if (options.preview) {
+            this.setRunResult('skipped', 'No changes were selected.');
+        } else {
+            this.setRunResult('warning', 'No configuration files found in the Gist to apply.');
+        }
+        return true;
+    }
+
+    // Files of a Gist revision; revisions never change, so they are cached
+    private async getRevisionFiles(storage: StorageProvider, gistId: string, version: string): Promise<GistFiles> {
+        const cacheKey = `${gistId}/${version}`;
+        const cached = this.revisionCache.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+        const files = (await storage.read(gistId, version)).files;
+        this.revisionCache.set(cacheKey, files);
+        return files;
+    }
+
+    // Names of the files added, removed or modified between two revisions (all files if there is no previous revision)
+    private getChangedFileNames(files: GistFiles, previousFiles: GistFiles | undefined): string[] {
+        const fileNames = [...new Set([...Object.keys(files), ...Object.keys(previousFiles ?? {})])];
+        return fileNames.filter(fileName => !previousFiles || files[fileName]?.content !== previousFiles[fileName]?.content);
+    }
+
+    // Lists the Gist's revisions and lets the user compare one with the local configuration or apply it
+    public async showHistory(): Promise<void> {
+        const profile = this.profileService.getProfile();
+        let effectiveGistId: string | undefined;
+        try {
+            const storage = await this.getStorage(true);
+            effectiveGistId = this.getEffectiveGistId(profile);
+            if (!effectiveGistId) {
+                this.showInfo(this.getMissingGistMessage(profile));
+                return;
+            }
 
-            await vscode.window.withProgress({
+            const gistId = effectiveGistId;
+            const revisions = await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
-                title: "Installing Extensions",
-                cancellable: false
-            }, async (progress) => {
-                for (let i = 0; i < missingExtensions.length; i++) {
-                    const extensionId = missingExtensions[i];
-                    progress.report({ message: `Installing ${extensionId}... (${i + 1}/${missingExtensions.length})`, increment: 100 / missingExtensions.length });
-                    try {
-                        await vscode.commands.executeCommand('workbench.extensions.install', extensionId);
-                    } catch (installError) {
-                        console.error(`Failed to install extension ${extensionId}:`, installError);
-                        vscode.window.showWarningMessage(`Failed to install extension: ${extensionId}`);
+                title: 'Loading Gist history'
+            }, async (): Promise<GistRevision[]> => {
+                // One extra revision is loaded to know what changed in the oldest listed one
+                const commits = await storage.listRevisions(gistId, HISTORY_PAGE_SIZE + 1);
+                const rawRevisionFiles = await Promise.all(commits.map(commit => this.getRevisionFiles(storage, gistId, commit.version)));
+                // Only the stored passphrase is tried; revisions encrypted with an older one are decrypted when opened
+                const storedPassphrase = await this.context.secrets.get(PASSPHRASE_SECRET_KEY);
+                const revisionFiles = await Promise.all(rawRevisionFiles.map(async files => {
+                    const decrypted = await this.tryDecryptFiles(files, storedPassphrase);
+                    return decrypted && this.fromGistFiles(profile, decrypted);
+                }));
+                return commits.slice(0, HISTORY_PAGE_SIZE).map((commit, index) => {
+                    const files = revisionFiles[index];
+                    const previousFiles = revisionFiles[index + 1];
+                    const hasPrevious = index + 1 < commits.length;
+                    return {
+                        version: commit.version,
+                        committedAt: commit.committedAt,
+                        additions: commit.additions,
+                        deletions: commit.deletions,
+                        rawFiles: rawRevisionFiles[index],
+                        files,
+                        changedFiles: files && (previousFiles || !hasPrevious) ? this.getChangedFileNames(files, previousFiles) : undefined
+                    };
+                });
+            });
+            if (revisions.length === 0) {
+                this.showInfo('The Gist has no revisions yet.');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(revisions.map((revision, index) => ({
+                label: new Date(revision.committedAt).toLocaleString(),
+                description: !revision.files ? 'encrypted with another passphrase'
+                    : revision.changedFiles ? revision.changedFiles.join(', ') || 'no file changes' : 'changed files unknown',
+                detail: `${revision.version.substring(0, 7)}${revision.additions !== undefined ? `  +${revision.additions} -${revision.deletions ?? 0}` : ''}${index === 0 ? '  (latest)' : ''}`,
+                revision: revision
+            })), { placeHolder: 'Select a Gist revision', matchOnDescription: true, matchOnDetail: true });
+            if (!selected) {
+                return;
+            }
+
+            const revision = selected.revision;
+            const revisionLabel = `Revision ${revision.version.substring(0, 7)}`;
+            if (!revision.files) {
+                const passphrase = await this.promptPassphrase(`${revisionLabel} is encrypted with another passphrase. Enter the passphrase it was encrypted with`, false);
+                if (!passphrase) {
+                    return;
+                }
+                revision.files = this.fromGistFiles(profile, await this.decryptFiles(revision.rawFiles, passphrase));
+            }
+            const revisionFiles = revision.files;
+            const localContents: { [fileName: string]: string | undefined } = { [EXTENSIONS_FILENAME]: this.getInstalledExtensionsList() };
+            while (true) {
+                const actions = [
+                    ...[USER_SETTINGS_FILENAME, KEYBINDINGS_FILENAME, EXTENSIONS_FILENAME]
+                        .filter(fileName => revisionFiles[fileName]?.content)
+                        .map(fileName => ({ label: `Compare ${fileName} with local`, fileName: fileName, preview: false })),
+                    { label: 'Preview and apply this revision...', fileName: undefined, preview: true },
+                    { label: 'Apply this revision', description: 'merged like a download', fileName: undefined, preview: false }
+                ];
+                const action = await vscode.window.showQuickPick(actions, { placeHolder: `${revisionLabel} from ${selected.label}` });
+                if (!action) {
+                    return;
+                }
+                if (action.fileName) {
+                    await this.showGistDiff(action.fileName, revisionFiles[action.fileName].content ?? '', revisionLabel, localContents[action.fileName]);
+                    continue;
+                }
+                await this.downloadSettings({ revision: revision.version, preview: action.preview });
+                return;
+            }
+        } catch (error: any) {
+            console.error('Error loading Gist history:', error);
+            const errorMessage = getErrorMessage(error);
+            vscode.window.showErrorMessage(`Error loading Gist history: ${errorMessage}`);
+            await this.handleInvalidGistId(error, effectiveGistId, profile);
+        }
+    }
+
+    // Lets the user pick a local backup and restores its settings, keybindings, extensions and other files
+    public async restoreBackup(): Promise<void> {
+        const backupService = BackupService.getInstance(this.context);
+        const backups = backupService.listBackups();
+        if (backups.length === 0) {
+            this.showInfo('No local backups found. A backup is created automatically before every download.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(backups.map(backup => ({
+            label: new Date(backup.createdAt).toLocaleString(),
+            description: backup.reason,
+            detail: Object.keys(backup.files).filter(fileName => backup.files[fileName] !== null).join(', '),
+            backup: backup
+        })), { placeHolder: 'Select a local backup to restore' });
+        if (!selected) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `Restore the backup from ${selected.label}? Your current settings and keybindings will be replaced; a backup of them is made first.`,
+            { modal: true },
+            'Restore'
+        );
+        if (confirmation !== 'Restore') {
+            return;
+        }
+
+        await this.runExclusive(async () => {
+            const previousRun = this.beginSyncRun('Restore backup', false);
+            try {
+                this.showInfo(`Restoring the backup from ${selected.label} (${selected.backup.reason})`);
+                const files = selected.backup.files;
+                const userFilePaths = Object.keys(files).filter(fileName => ![USER_SETTINGS_FILENAME, KEYBINDINGS_FILENAME, EXTENSIONS_FILENAME].includes(fileName) && isSafeRelativePath(fileName));
+                backupService.createBackup('Before restoring a backup', this.getLocalConfigurationFiles(userFilePaths));
+                for (const fileName of [USER_SETTINGS_FILENAME, KEYBINDINGS_FILENAME]) {
+                    const content = files[fileName];
+                    if (content !== null && content !== undefined) {
+                        fs.writeFileSync(path.join(this.getUserDataPath(), fileName), content, 'utf8');
+                        this.addRunItem(fileName, fileName, 'applied');
                     }
                 }
-            });
+                // User files that did not exist when the backup was taken are removed
+                this.applyUserFiles(Object.fromEntries(userFilePaths.map(relativePath => [relativePath, files[relativePath] ?? undefined])));
+                const extensionsContent = files[EXTENSIONS_FILENAME];
+                if (extensionsContent) {
+                    await this.applyExtensions(parseExtensionManifest(this.parseJsonContent<(string | ExtensionEntry)[]>(extensionsContent, EXTENSIONS_FILENAME) ?? []));
+                }
+                this.setRunResult('succeeded', `Backup from ${selected.label} restored. You may need to reload VS Code for all changes to take effect.`);
+            } catch (error) {
+                console.error('Error restoring backup:', error);
+                this.showError(error instanceof Error ? error.message : String(error), error);
+                this.setRunResult('failed', `Error restoring backup: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+                await this.endSyncRun(previousRun);
+            }
+        });
+    }
+
+    // Lets the user pick which conflicting changes take the Gist version; returns undefined if cancelled
+    private async resolveMergeConflicts(settingsConflicts: MergeConflict<any>[], keybindingConflicts: MergeConflict<Keybinding>[], userFileConflicts: MergeConflict<string>[]): Promise<{ settings: MergeConflict<any>[], keybindings: MergeConflict<Keybinding>[], userFiles: MergeConflict<string>[] } | undefined> {
+        if (settingsConflicts.length === 0 && keybindingConflicts.length === 0 && userFileConflicts.length === 0) {
+            return { settings: [], keybindings: [], userFiles: [] };
+        }
+
+        const describe = (value: any) => value === undefined ? '(removed)' : JSON.stringify(value);
+        const toItem = (conflict: MergeConflict<any>, fileName: string, detail?: string) => ({
+            label: conflict.label,
+            description: fileName,
+            detail: detail ?? `Local: ${describe(conflict.local)}  |  Gist: ${describe(conflict.remote)}`,
+            conflict: conflict,
+            fileName: fileName
+        });
+        // Whole files are too long to show, only what happened to them
+        const describeFile = (content: string | undefined) => content === undefined ? 'removed' : 'changed';
+        const items = [
+            ...settingsConflicts.map(conflict => toItem(conflict, USER_SETTINGS_FILENAME)),
+            ...keybindingConflicts.map(conflict => toItem(conflict, KEYBINDINGS_FILENAME)),
+            ...userFileConflicts.map(conflict => toItem(conflict, USER_FILES_GROUP, `Local: ${describeFile(conflict.local)}  |  Gist: ${describeFile(conflict.remote)}`))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: `${items.length} conflicting changes. Select the ones to take from the Gist; unselected items keep the local version.`
+        });
+        if (!selected) {
+            return undefined;
+        }
+        return {
+            settings: selected.filter(item => item.fileName === USER_SETTINGS_FILENAME).map(item => item.conflict),
+            keybindings: selected.filter(item => item.fileName === KEYBINDINGS_FILENAME).map(item => item.conflict),
+            userFiles: selected.filter(item => item.fileName === USER_FILES_GROUP).map(item => item.conflict)
+        };
+    }
+
+    // Specific handling if the Gist ID used (from config or state) was invalid
+    private async handleInvalidGistId(error: any, effectiveGistId: string | undefined, profile: Profile): Promise<void> {
+        if (!effectiveGistId || !isStoreNotFoundError(error)) {
+            return;
+        }
+        // If the problematic ID came from global state or the profile, clear it.
+        // If it came from config, we can't clear it, so just warn the user.
+        const configuredGistId = vscode.workspace.getConfiguration('settingsSave').get<string | null>('gistId');
+        if (this.hasOwnGist(profile)) {
+            await this.profileService.setProfileGistId(profile.name, undefined);
+            this.showWarning(`The Gist ID of profile "${profile.name}" ('${effectiveGistId}') was invalid or inaccessible and has been cleared.`);
+        } else if (configuredGistId && configuredGistId.trim() === effectiveGistId) {
+            this.showError(`The Gist ID configured in settings ('${effectiveGistId}') seems invalid or inaccessible. Please check the ID and GitHub permissions.`);
+        } else if (this.context.globalState.get<string>(GIST_ID_KEY) === effectiveGistId) {
+            await this.context.globalState.update(GIST_ID_KEY, undefined);
+            this.showWarning(`Stored Gist ID ('${effectiveGistId}') was invalid or inaccessible and has been cleared from global state.`);
+        } else {
+            // Should not happen based on getEffectiveGistId logic, but good to have a fallback
+            this.showWarning(`The Gist ID ('${effectiveGistId}') used was invalid or inaccessible.`);
+        }
+    }
 
-            vscode.window.showInformationMessage('Extension installation process completed. Some installs might require a reload.');
+    // True for profiles other than the default one that have a Gist of their own
+    private hasOwnGist(profile: Profile): boolean {
+        return profile.storage === 'ownGist' && !this.profileService.isDefaultProfile(profile);
+    }
+
+    private getMissingGistMessage(profile: Profile): string {
+        return this.hasOwnGist(profile)
+            ? `Profile "${profile.name}" has no Gist yet. Upload to the profile first to create one.`
+            : 'No Gist ID found in configuration or global state. Please configure a Gist ID or upload configurations first to create one.';
+    }
+
+    // Picks the profile's files out of the Gist files, under their plain file names, with the keybindings for this platform
+    private fromGistFiles(profile: Profile, gistFiles: GistFiles): GistFiles {
+        const prefix = this.profileService.getFilePrefix(profile);
+        const files: GistFiles = {};
+        for (const fileName of [USER_SETTINGS_FILENAME, EXTENSIONS_FILENAME]) {
+            if (gistFiles[prefix + fileName]) {
+                files[fileName] = gistFiles[prefix + fileName];
+            }
+        }
+        const keybindingsFile = this.getPlatformKeybindingsFile(prefix, gistFiles);
+        if (keybindingsFile) {
+            files[KEYBINDINGS_FILENAME] = keybindingsFile;
+        }
+        // User files keep their encoded names
+        for (const fileName of Object.keys(gistFiles)) {
+            if (fileName.startsWith(prefix) && fromStorageFileName(fileName.substring(prefix.length)) !== undefined) {
+                files[fileName.substring(prefix.length)] = gistFiles[fileName];
+            }
+        }
+        return files;
+    }
+
+    private getSyncInfo(prefix: string, gistFiles: GistFiles): SyncInfo {
+        try {
+            return this.parseJsonContent<SyncInfo>(gistFiles[prefix + SYNC_INFO_FILENAME]?.content ?? '{}', SYNC_INFO_FILENAME) ?? {};
+        } catch {
+            return {};
+        }
+    }
+
+    // Keybindings for this platform: its own file, else the single file of earlier versions,
+    // else (if enabled) another platform's file with ctrl/cmd translated
+    private getPlatformKeybindingsFile(prefix: string, gistFiles: GistFiles): { content?: string } | undefined {
+        const platform = getCurrentPlatform();
+        const ownFile = gistFiles[prefix + getPlatformKeybindingsFileName(platform)] ?? gistFiles[prefix + KEYBINDINGS_FILENAME];
+        if (ownFile) {
+            return ownFile;
+        }
+        if (!vscode.workspace.getConfiguration('settingsSave').get<boolean>('keybindings.translateModifiers', true)) {
+            return undefined;
+        }
+
+        // Prefer the platform of the latest upload
+        const uploadPlatform = this.getSyncInfo(prefix, gistFiles).platform;
+        const sourcePlatform = [uploadPlatform, ...SUPPORTED_PLATFORMS]
+            .find(candidate => candidate && candidate !== platform && gistFiles[prefix + getPlatformKeybindingsFileName(candidate)]?.content);
+        if (!sourcePlatform) {
+            return undefined;
+        }
+        const sourceFileName = getPlatformKeybindingsFileName(sourcePlatform);
+        const keybindings = this.parseJsonContent<Keybinding[]>(gistFiles[prefix + sourceFileName].content!, sourceFileName) ?? [];
+        return { content: JSON.stringify(translateKeybindings(keybindings, sourcePlatform, platform), null, 4) };
+    }
+
+    private isEncryptionEnabled(): boolean {
+        return vscode.workspace.getConfiguration('settingsSave').get<boolean>('encryption.enabled', false);
+    }
+
+    // Asks for a passphrase (twice for a new one); returns undefined if cancelled or the two entries differ
+    private async promptPassphrase(prompt: string, isNew: boolean): Promise<string | undefined> {
+        const passphrase = await vscode.window.showInputBox({
+            prompt,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => isNew && value.length < 8 ? 'Use at least 8 characters.' : undefined
+        });
+        if (!passphrase || !isNew) {
+            return passphrase || undefined;
+        }
+        const repeated = await vscode.window.showInputBox({ prompt: 'Repeat the passphrase', password: true, ignoreFocusOut: true });
+        if (repeated === undefined) {
+            return undefined;
+        }
+        if (repeated !== passphrase) {
+            vscode.window.showErrorMessage('The passphrases do not match.');
+            return undefined;
+        }
+        return passphrase;
+    }
+
+    // The passphrase stored in secret storage; when interactive and none is stored, asks for one (stored if store is set)
+    private async getPassphrase(interactive: boolean, isNew: boolean, store: boolean = true): Promise<string> {
+        const storedPassphrase = await this.context.secrets.get(PASSPHRASE_SECRET_KEY);
+        if (storedPassphrase) {
+            return storedPassphrase;
+        }
+        if (!interactive) {
+            throw new Error('No encryption passphrase is set on this machine. Run "Settings Save: Set Encryption Passphrase".');
+        }
+        const passphrase = await this.promptPassphrase(
+            isNew ? 'Passphrase to encrypt your settings Gist with (use the same one on all your machines)' : 'Passphrase your settings Gist is encrypted with',
+            isNew
+        );
+        if (!passphrase) {
+            throw new Error('An encryption passphrase is required.');
+        }
+        if (store) {
+            await this.context.secrets.store(PASSPHRASE_SECRET_KEY, passphrase);
+        }
+        return passphrase;
+    }
+
+    private getEncryptedFileNames(gistFiles: GistFiles): string[] {
+        return Object.keys(gistFiles).filter(fileName => isEncryptedContent(gistFiles[fileName]?.content ?? ''));
+    }
+
+    private async decryptFiles(gistFiles: GistFiles, passphrase: string): Promise<GistFiles> {
+        const files: GistFiles = { ...gistFiles };
+        for (const fileName of this.getEncryptedFileNames(gistFiles)) {
+            files[fileName] = { ...gistFiles[fileName], content: await decryptContent(gistFiles[fileName].content!, passphrase) };
+        }
+        return files;
+    }
+
+    // Decrypts the files of a history revision without asking; undefined if the passphrase does not fit or is missing
+    private async tryDecryptFiles(gistFiles: GistFiles, passphrase: string | undefined): Promise<GistFiles | undefined> {
+        if (this.getEncryptedFileNames(gistFiles).length === 0) {
+            return gistFiles;
+        }
+        if (!passphrase) {
+            return undefined;
+        }
+        try {
+            return await this.decryptFiles(gistFiles, passphrase);
+        } catch (error) {
+            if (error instanceof Error && error.message === WRONG_PASSPHRASE_MESSAGE) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
 
+    // Decrypts the encrypted Gist files; if the stored passphrase does not fit, the user may enter the right one. An
+    // entered passphrase is only stored for the latest revision: older ones may predate a passphrase change.
+    private async decryptGistFiles(gistFiles: GistFiles, interactive: boolean, latest: boolean = true): Promise<GistFiles> {
+        if (this.getEncryptedFileNames(gistFiles).length === 0) {
+            return gistFiles;
+        }
+
+        try {
+            return await this.decryptFiles(gistFiles, await this.getPassphrase(interactive, false, latest));
         } catch (error) {
-            console.error('Error applying extensions:', error);
-            vscode.window.showErrorMessage(`Failed to apply extensions list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            if (!interactive || !(error instanceof Error) || error.message !== WRONG_PASSPHRASE_MESSAGE) {
+                throw error;
+            }
+            const passphrase = await this.promptPassphrase(`The stored passphrase does not decrypt this ${latest ? 'Gist' : 'revision'}. Enter the passphrase it was encrypted with`, false);
+            if (!passphrase) {
+                throw error;
+            }
+            const files = await this.decryptFiles(gistFiles, passphrase);
+            if (latest) {
+                await this.context.secrets.store(PASSPHRASE_SECRET_KEY, passphrase);
+            }
+            return files;
+        }
+    }
+
+    // Stores the passphrase on this machine without touching the Gist (e.g. after it was changed on another machine)
+    public async setPassphrase(): Promise<void> {
+        const passphrase = await this.promptPassphrase('Passphrase your settings Gist is encrypted with', false);
+        if (passphrase) {
+            await this.context.secrets.store(PASSPHRASE_SECRET_KEY, passphrase);
+            this.showInfo('Encryption passphrase saved on this machine.');
+        }
+    }
+
+    // Re-encrypts the encrypted files of the active profile's Gist with a new passphrase
+    public async changePassphrase(): Promise<void> {
+        return this.runExclusive(() => this.reencryptGist());
+    }
+
+    private async reencryptGist(): Promise<void> {
+        const profile = this.profileService.getProfile();
+        let effectiveGistId: string | undefined;
+        try {
+            const storage = await this.getStorage(true);
+            effectiveGistId = this.getEffectiveGistId(profile);
+            if (!effectiveGistId) {
+                this.showInfo(this.getMissingGistMessage(profile));
+                return;
+            }
+
+            const current = await storage.read(effectiveGistId);
+            const gistFiles = current.files;
+            const encryptedFileNames = this.getEncryptedFileNames(gistFiles);
+            // Decrypting first also verifies the current passphrase
+            const decryptedFiles = await this.decryptGistFiles(gistFiles, true);
+
+            const passphrase = await this.promptPassphrase('New passphrase', true);
+            if (!passphrase) {
+                return;
+            }
+
+            if (encryptedFileNames.length > 0) {
+                const encryptedContents = await encryptContents(encryptedFileNames.map(fileName => decryptedFiles[fileName].content!), passphrase);
+                const files: StorageFileChanges = Object.fromEntries(encryptedFileNames.map((fileName, index) => [fileName, { content: encryptedContents[index] }]));
+                // The contents do not change, so the profiles in the Gist that were in sync stay in sync
+                // (all encrypted files are re-encrypted, including those of other profiles sharing the Gist)
+                const gistId = effectiveGistId;
+                const syncedProfiles = this.profileService.getProfiles()
+                    .filter(candidate => this.getEffectiveGistId(candidate) === gistId && this.isLastSyncedRevision(candidate, gistId, current));
+                const written = await storage.write(effectiveGistId, files, this.getGistDescription(profile));
+                for (const syncedProfile of syncedProfiles) {
+                    await this.updateSyncMarker(syncedProfile, effectiveGistId, written);
+                }
+            }
+            await this.context.secrets.store(PASSPHRASE_SECRET_KEY, passphrase);
+            this.showInfo(encryptedFileNames.length > 0
+                ? 'The Gist was re-encrypted with the new passphrase. Enter it on your other machines with "Settings Save: Set Encryption Passphrase".'
+                : 'Passphrase changed. The Gist has no encrypted files yet; they are encrypted on the next upload if encryption is enabled.');
+        } catch (error: any) {
+            console.error('Error changing the encryption passphrase:', error);
+            const errorMessage = getErrorMessage(error);
+            vscode.window.showErrorMessage(`Error changing the encryption passphrase: ${errorMessage}`);
+            await this.handleInvalidGistId(error, effectiveGistId, profile);
+        }
+    }
+
+    // Looks for likely credentials in settings.json content before an upload; returns the content to upload, or undefined if cancelled
+    private async checkForSecrets(settingsContent: string, auto: boolean): Promise<string | undefined> {
+        const scanning = vscode.workspace.getConfiguration('settingsSave').get<string>('secretScanning', 'prompt');
+        if (scanning === 'off') {
+            return settingsContent;
+        }
+        const findings = findSecrets(settingsContent);
+        if (findings.length === 0) {
+            return settingsContent;
+        }
+
+        const findingList = findings.map(finding => `${finding.label} (${finding.reason})`);
+        const redact = () => {
+            findings.forEach(finding => this.addRunItem(USER_SETTINGS_FILENAME, finding.label, 'skipped', `redacted: ${finding.reason}`));
+            return redactSecrets(settingsContent, findings);
+        };
+        // Auto sync never asks, and never uploads a likely secret either
+        if (scanning === 'redact' || auto) {
+            return redact();
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `settings.json appears to contain ${findings.length === 1 ? 'a secret' : `${findings.length} secrets`} that would be uploaded to the Gist.`,
+            {
+                modal: true,
+                detail: `${findingList.join('\n')}\n\nRedacted values are replaced by a placeholder in the Gist and keep their local value on download.`
+            },
+            'Redact and Upload',
+            'Upload Anyway'
+        );
+        if (choice === 'Redact and Upload') {
+            return redact();
+        }
+        return choice === 'Upload Anyway' ? settingsContent : undefined;
+    }
+
+    // The storage backend chosen in the settings; for Gists this signs in to GitHub (only silently when not interactive)
+    private async getStorage(interactive: boolean): Promise<StorageProvider> {
+        const storageConfig = vscode.workspace.getConfiguration('settingsSave.storage');
+        switch (storageConfig.get<string>('provider', 'gist')) {
+            case 'folder': {
+                const folderPath = storageConfig.get<string>('folderPath')?.trim();
+                if (!folderPath) {
+                    throw new Error('No storage folder configured. Please set "settingsSave.storage.folderPath".');
+                }
+                return new FolderStorage(folderPath);
+            }
+            case 'http': {
+                const url = storageConfig.get<string>('httpUrl')?.trim();
+                if (!url) {
+                    throw new Error('No storage endpoint configured. Please set "settingsSave.storage.httpUrl".');
+                }
+                const token = await this.context.secrets.get(STORAGE_TOKEN_SECRET_KEY);
+                return new GistStorage(url, token ? `Bearer ${token}` : undefined, message => this.syncLog.info(message));
+            }
+            default:
+                return new GistStorage(GITHUB_GISTS_URL, `token ${await this.getGitHubToken(interactive)}`, message => this.syncLog.info(message));
+        }
+    }
+
+    // Stores the token sent to the HTTP storage endpoint (an empty input removes it)
+    public async setStorageToken(): Promise<void> {
+        const token = await vscode.window.showInputBox({
+            prompt: 'Token for the storage endpoint (e.g. a GitHub Enterprise personal access token with the gist scope); leave empty to remove it',
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (token === undefined) {
+            return;
+        }
+        if (token.trim()) {
+            await this.context.secrets.store(STORAGE_TOKEN_SECRET_KEY, token.trim());
+            this.showInfo('Storage endpoint token saved on this machine.');
+        } else {
+            await this.context.secrets.delete(STORAGE_TOKEN_SECRET_KEY);
+            this.showInfo('Storage endpoint token removed.');
         }
     }
 
-    // Helper to determine the Gist ID to use (checks config first, then global state)
-    private getEffectiveGistId(): string | undefined {
+    private getGistDescription(profile: Profile): string {
+        return this.hasOwnGist(profile)
+            ? `VS Code Settings Backup, profile "${profile.name}" (settings, keybindings, extensions)`
+            : 'VS Code Settings Backup (settings, keybindings, extensions)';
+    }
+
+    // Helper to determine the Gist ID to use (profile's own Gist, else config first, then global state)
+    private getEffectiveGistId(profile: Profile): string | undefined {
+        if (this.hasOwnGist(profile)) {
+            return profile.gistId;
+        }
+
         const extensionConfig = vscode.workspace.getConfiguration('settingsSave');
         const configuredGistId = extensionConfig.get<string | null>('gistId');
 
         if (configuredGistId && configuredGistId.trim()) {
-            console.log('Using Gist ID from configuration.');
             return configuredGistId.trim(); // Use Gist ID from settings if provided
         } else {
-            console.log('Checking global state for Gist ID.');
             // Fallback to Gist ID stored in global state
             return this.context.globalState.get<string>(GIST_ID_KEY);
         }
@@ -255,163 +1699,254 @@ export class GistService {
 
     // --- Upload/Download ---
 
-    public async uploadSettings(): Promise<void> {
-        let token: string;
+    // Profiles with an upload waiting for the network
+    public getQueuedUploads(): string[] {
+        return this.context.globalState.get<string[]>(QUEUED_UPLOADS_KEY) ?? [];
+    }
+
+    // Queues an upload of the given (by default the active) profile; the upload reads the configuration again when it runs
+    public async queueUpload(profileName: string = this.profileService.getProfile().name): Promise<void> {
+        const queued = this.getQueuedUploads();
+        if (!queued.includes(profileName)) {
+            await this.context.globalState.update(QUEUED_UPLOADS_KEY, [...queued, profileName]);
+        }
+    }
+
+    // Runs a queued upload without prompts; if the network is still unavailable it is queued again
+    public async runQueuedUpload(profileName: string): Promise<boolean> {
+        await this.context.globalState.update(QUEUED_UPLOADS_KEY, this.getQueuedUploads().filter(queued => queued !== profileName));
+        return this.uploadSettings({ auto: true, profile: profileName });
+    }
+
+    // Uploads the local configuration; returns true if the Gist was written
+    public async uploadSettings(options: SyncOptions = {}): Promise<boolean> {
+        return this.runExclusive(() => this.upload(options));
+    }
+
+    private async upload(options: SyncOptions): Promise<boolean> {
         let effectiveGistId: string | undefined;
+        let profile = this.profileService.getProfile();
+        this.silent = !!options.auto;
+        const previousRun = this.beginSyncRun('Upload', !!options.auto);
         try {
-            token = await this.getGitHubToken();
-            effectiveGistId = this.getEffectiveGistId(); // Use the helper function
+            profile = this.profileService.getProfile(options.profile);
+            this.showInfo(`Profile: ${profile.name}`);
+            const storage = await this.getStorage(!options.auto);
+            effectiveGistId = this.getEffectiveGistId(profile); // Use the helper function
+            const prefix = this.profileService.getFilePrefix(profile);
 
-            // Get content for each file
-            const settingsContent = this.getUserSettingsContent();
+            // Get content for each file, leaving out ignored and machine-specific settings and ignored extensions
+            const filter = new SyncFilter();
+            const rawSettingsContent = this.getUserSettingsContent();
+            let settingsContent = rawSettingsContent !== null ? filter.removeIgnoredSettings(rawSettingsContent) : null;
+            let extensionsContent = this.getInstalledExtensionsList(filter);
+            // What the team baselines provide is not stored in the personal Gist, so later baseline changes still come through
+            const baselineLayers = (await this.readBaselineLayers(storage, this.getBaselineSources())).layers;
+            const baseline = mergeLayers(baselineLayers);
+            if (baselineLayers.length > 0) {
+                if (settingsContent !== null) {
+                    settingsContent = removeBaselineSettings(settingsContent, baseline);
+                }
+                const localExtensions = this.parseJsonContent<ExtensionEntry[]>(extensionsContent, EXTENSIONS_FILENAME);
+                extensionsContent = JSON.stringify(localExtensions.filter(extension => !findExtension(baseline.extensions, extension.id)), null, 2);
+            }
+            // Encrypted uploads are not scanned for secrets
+            if (settingsContent !== null && !this.isEncryptionEnabled()) {
+                const checkedContent = await this.checkForSecrets(settingsContent, !!options.auto);
+                if (checkedContent === undefined) {
+                    this.setRunResult('cancelled', 'Upload cancelled.');
+                    return false;
+                }
+                settingsContent = checkedContent;
+            }
             const keybindingsContent = this.getKeybindingsContent();
-            const extensionsContent = this.getInstalledExtensionsList();
+            const userFiles = this.getUserFiles();
+
+            // The last synced state holds the effective settings and extensions, as the next download would produce them
+            let syncedSettingsContent = settingsContent;
+            let syncedExtensionsContent = extensionsContent;
+            if (baselineLayers.length > 0) {
+                const layered = mergeLayers([...baselineLayers, { name: this.getPersonalLayerName(profile), baseline: false, ...this.parseLayerContents(settingsContent, extensionsContent) }]);
+                syncedSettingsContent = JSON.stringify(layered.settings, null, 4);
+                syncedExtensionsContent = JSON.stringify(layered.extensions, null, 2);
+            }
 
             // Build the files object for the Gist payload
-            const files: { [key: string]: { content: string } } = {};
+            // (a null entry deletes that file from the Gist)
+            const files: StorageFileChanges = {};
             if (settingsContent !== null) {
-                files[USER_SETTINGS_FILENAME] = { content: settingsContent };
+                files[prefix + USER_SETTINGS_FILENAME] = { content: settingsContent };
             }
             if (keybindingsContent !== null) {
-                files[KEYBINDINGS_FILENAME] = { content: keybindingsContent };
+                // Keybindings are stored per platform, so a Mac and a Linux machine keep their own
+                files[prefix + getPlatformKeybindingsFileName(getCurrentPlatform())] = { content: keybindingsContent };
             }
             // Always include extensions, even if empty list
-            files[EXTENSIONS_FILENAME] = { content: extensionsContent };
+            files[prefix + EXTENSIONS_FILENAME] = { content: extensionsContent };
+            // Snippets, tasks and additional files, with their paths encoded into flat file names
+            for (const [relativePath, content] of Object.entries(userFiles)) {
+                files[prefix + toStorageFileName(relativePath)] = { content };
+            }
 
-            if (Object.keys(files).length === 0) {
-                vscode.window.showWarningMessage("No settings, keybindings, or extensions found to upload.");
-                return;
+            // Encrypt everything but the sync info when enabled
+            const encrypt = this.isEncryptionEnabled();
+            if (encrypt) {
+                const passphrase = await this.getPassphrase(!options.auto, true);
+                const fileNames = Object.keys(files);
+                const encryptedContents = await encryptContents(fileNames.map(fileName => files[fileName]!.content), passphrase);
+                fileNames.forEach((fileName, index) => files[fileName] = { content: encryptedContents[index] });
             }
+            const syncInfo: SyncInfo = { platform: getCurrentPlatform(), uploadedAt: new Date().toISOString(), encrypted: encrypt };
+            files[prefix + SYNC_INFO_FILENAME] = { content: JSON.stringify(syncInfo, null, 2) };
 
-            const headers = {
-                'Authorization': `token ${token}`,
-                'Accept': 'application/vnd.github.v3+json'
-            };
+            if (Object.keys(files).length === 0) {
+                this.setRunResult('warning', "No settings, keybindings, or extensions found to upload.");
+                return false;
+            }
 
-            const gistPayload = {
-                description: 'VS Code Settings Backup (settings, keybindings, extensions)',
-                files: files
-            };
+            const description = this.getGistDescription(profile);
 
             if (effectiveGistId) { // Use the determined Gist ID
+                // Never overwrite changes another machine made since this machine last synced
+                const currentGist = await storage.read(effectiveGistId);
+                if (!this.isLastSyncedRevision(profile, effectiveGistId, currentGist)) {
+                    if (options.auto) {
+                        this.setRunResult('warning', 'The Gist was changed on another machine since the last sync. Auto sync skipped the upload until those changes are downloaded.');
+                        return false;
+                    }
+                    const choice = await vscode.window.showWarningMessage(
+                        'The Gist was changed on another machine since this machine last synced with it. Uploading now would overwrite those changes.',
+                        { modal: true },
+                        'Download and Merge First',
+                        'Overwrite Gist'
+                    );
+                    if (choice === 'Download and Merge First') {
+                        // The download and the new upload are logged as syncs of their own
+                        this.setRunResult('cancelled', 'Upload restarted after downloading the Gist changes.');
+                        return await this.download({ profile: profile.name }) && await this.upload(options);
+                    }
+                    if (choice !== 'Overwrite Gist') {
+                        this.setRunResult('cancelled', 'Upload cancelled.');
+                        return false;
+                    }
+                }
+
+                // The single keybindings file of earlier versions is replaced by the per-platform files
+                if (keybindingsContent !== null && currentGist.files[prefix + KEYBINDINGS_FILENAME]) {
+                    files[prefix + KEYBINDINGS_FILENAME] = null;
+                }
+                // User files removed locally are removed from the Gist as well
+                for (const fileName of Object.keys(currentGist.files)) {
+                    if (fileName.startsWith(prefix) && fromStorageFileName(fileName.substring(prefix.length)) !== undefined && !(fileName in files)) {
+                        files[fileName] = null;
+                    }
+                }
+
                 // Update existing Gist
-                vscode.window.showInformationMessage(`Updating existing Gist: ${effectiveGistId}...`);
-                await axios.patch(`https://api.github.com/gists/${effectiveGistId}`, gistPayload, { headers });
-                vscode.window.showInformationMessage('Configurations successfully uploaded to existing Gist!');
+                this.showInfo(`Updating existing Gist: ${effectiveGistId}...`);
+                const written = await storage.write(effectiveGistId, files, description);
+                await this.updateSyncSnapshot(profile, syncedSettingsContent, keybindingsContent, syncedExtensionsContent, userFiles);
+                await this.updateSyncMarker(profile, effectiveGistId, written);
+                this.setRunResult('succeeded', 'Configurations successfully uploaded to existing Gist!');
             } else {
                 // Create new Gist
-                vscode.window.showInformationMessage('No Gist ID found in config or state. Creating a new Gist...');
-                const response = await axios.post('https://api.github.com/gists', gistPayload, { headers });
-                const newGistId = response.data.id;
-                // Store the newly created Gist ID *only in global state*
-                await this.context.globalState.update(GIST_ID_KEY, newGistId);
-                vscode.window.showInformationMessage(`Configurations successfully uploaded to new Gist: ${newGistId}. ID stored for future use.`);
-            }
-        } catch (error: any) {
-            console.error('Error uploading configurations:', error);
-            const errorMessage = error.response?.data?.message || (error instanceof Error ? error.message : String(error));
-            vscode.window.showErrorMessage(`Error uploading configurations: ${errorMessage}`);
-
-            // Specific handling if the Gist ID used (from config or state) was invalid
-            if (effectiveGistId && (error.response?.status === 404 || error.response?.status === 401 || error.response?.status === 403)) {
-                // If the problematic ID came from global state, clear it.
-                // If it came from config, we can't clear it, so just warn the user.
-                const configuredGistId = vscode.workspace.getConfiguration('settingsSave').get<string | null>('gistId');
-                if (configuredGistId && configuredGistId.trim() === effectiveGistId) {
-                    vscode.window.showErrorMessage(`The Gist ID configured in settings ('${effectiveGistId}') seems invalid or inaccessible. Please check the ID and GitHub permissions.`);
-                } else if (this.context.globalState.get<string>(GIST_ID_KEY) === effectiveGistId) {
-                    await this.context.globalState.update(GIST_ID_KEY, undefined);
-                    vscode.window.showWarningMessage(`Stored Gist ID ('${effectiveGistId}') was invalid or inaccessible and has been cleared from global state.`);
+                this.showInfo('No Gist ID found in config or state. Creating a new Gist...');
+                const written = await storage.write(undefined, files, description);
+                const newGistId = written.id;
+                // Store the newly created Gist ID *only in global state* (or in the profile that owns it)
+                if (this.hasOwnGist(profile)) {
+                    await this.profileService.setProfileGistId(profile.name, newGistId);
                 } else {
-                    // Should not happen based on getEffectiveGistId logic, but good to have a fallback
-                    vscode.window.showWarningMessage(`The Gist ID ('${effectiveGistId}') used was invalid or inaccessible.`);
+                    await this.context.globalState.update(GIST_ID_KEY, newGistId);
                 }
+                await this.updateSyncSnapshot(profile, syncedSettingsContent, keybindingsContent, syncedExtensionsContent, userFiles);
+                await this.updateSyncMarker(profile, newGistId, written);
+                this.setRunResult('succeeded', `Configurations successfully uploaded to new Gist: ${newGistId}. ID stored for future use.`);
             }
+            return true;
+        } catch (error: any) {
+            // Only uploads that never reached the server are queued: after a lost connection the Gist may have been
+            // written (or, for a first upload, created), and uploading again could create a second one
+            if (isOfflineError(error)) {
+                this.showInfo(getErrorMessage(error));
+                await this.queueUpload(profile.name);
+                this.setRunResult('skipped', 'The network is unavailable. The upload is queued and will be retried when it is back.');
+                return false;
+            }
+            console.error('Error uploading configurations:', error);
+            const errorMessage = getErrorMessage(error);
+            this.showError(errorMessage, error);
+            this.setRunResult('failed', `Error uploading configurations: ${errorMessage}`);
+
+            await this.handleInvalidGistId(error, effectiveGistId, profile);
+            return false;
+        } finally {
+            this.silent = false;
+            await this.endSyncRun(previousRun);
         }
     }
 
-    public async downloadSettings(): Promise<void> {
-        let token: string;
+    // Downloads the Gist and merges it into the local configuration; returns true if the download was applied
+    public async downloadSettings(options: DownloadOptions = {}): Promise<boolean> {
+        return this.runExclusive(() => this.download(options));
+    }
+
+    private async download(options: DownloadOptions): Promise<boolean> {
         let effectiveGistId: string | undefined;
+        let profile = this.profileService.getProfile();
+        this.silent = !!options.auto;
+        const title = options.revision ? `Apply revision ${options.revision.substring(0, 7)}` : options.preview ? 'Preview download' : 'Download';
+        const previousRun = this.beginSyncRun(title, !!options.auto);
         try {
-            token = await this.getGitHubToken();
-            effectiveGistId = this.getEffectiveGistId(); // Use the helper function
+            profile = this.profileService.getProfile(options.profile);
+            this.showInfo(`Profile: ${profile.name}`);
+            const storage = await this.getStorage(!options.auto);
+            effectiveGistId = this.getEffectiveGistId(profile); // Use the helper function
 
             if (!effectiveGistId) {
-                vscode.window.showInformationMessage('No Gist ID found in configuration or global state. Please configure a Gist ID or upload configurations first to create one.');
-                return;
-            }
-
-            const headers = {
-                'Authorization': `token ${token}`,
-                'Accept': 'application/vnd.github.v3+json'
-            };
-
-            vscode.window.showInformationMessage(`Downloading configurations from Gist: ${effectiveGistId}...`);
-            // Fetch the Gist
-            const response = await axios.get(`https://api.github.com/gists/${effectiveGistId}`, { headers });
-            const gist = response.data;
-
-            if (!gist.files) {
-                vscode.window.showErrorMessage('Gist contains no files.');
-                return;
+                this.setRunResult('skipped', this.getMissingGistMessage(profile));
+                return false;
             }
 
-            const files = gist.files;
-            let appliedSomething = false;
+            this.showInfo(`Downloading configurations from Gist: ${effectiveGistId}...`);
+            // Fetch the Gist (at the requested revision, if any)
+            const gist = await storage.read(effectiveGistId, options.revision);
 
-            // Apply User Settings
-            if (files[USER_SETTINGS_FILENAME] && files[USER_SETTINGS_FILENAME].content) {
-                vscode.window.showInformationMessage('Applying user settings...');
-                await this.applyUserSettings(files[USER_SETTINGS_FILENAME].content);
-                appliedSomething = true;
-            } else {
-                vscode.window.showInformationMessage(`No ${USER_SETTINGS_FILENAME} found in Gist.`);
+            if (Object.keys(gist.files).length === 0) {
+                this.setRunResult('failed', 'Gist contains no files.');
+                return false;
             }
 
-            // Apply Keybindings
-            if (files[KEYBINDINGS_FILENAME] && files[KEYBINDINGS_FILENAME].content) {
-                vscode.window.showInformationMessage('Applying keybindings...');
-                await this.applyKeybindings(files[KEYBINDINGS_FILENAME].content);
-                appliedSomething = true;
-            } else {
-                vscode.window.showInformationMessage(`No ${KEYBINDINGS_FILENAME} found in Gist.`);
+            const files = this.fromGistFiles(profile, await this.decryptGistFiles(gist.files, !options.auto, !options.revision));
+            // The personal settings apply on top of the team baselines
+            const baselineSources = this.getBaselineSources();
+            const baseline = await this.readBaselineLayers(storage, baselineSources);
+            const lockedKeys = baselineSources.length > 0 ? this.layerOverBaselines(files, baseline.layers, profile) : new Set<string>();
+            if (Object.keys(files).length === 0) {
+                this.setRunResult('warning', this.profileService.isDefaultProfile(profile) ? 'No configuration files found in the Gist to apply.' : `The Gist contains no files for profile "${profile.name}".`);
+                return false;
             }
 
-            // Apply Extensions
-            if (files[EXTENSIONS_FILENAME] && files[EXTENSIONS_FILENAME].content) {
-                vscode.window.showInformationMessage('Checking extensions...');
-                await this.applyExtensions(files[EXTENSIONS_FILENAME].content);
-                appliedSomething = true;
-            } else {
-                vscode.window.showInformationMessage(`No ${EXTENSIONS_FILENAME} found in Gist.`);
+            if (!await this.applyGistFiles(files, options, profile, lockedKeys)) {
+                return false;
             }
-
-            if (appliedSomething) {
-                vscode.window.showInformationMessage('Configuration download and apply process finished. You may need to reload VS Code for all changes to take effect.');
-            } else {
-                vscode.window.showWarningMessage('No configuration files found in the Gist to apply.');
+            if (!options.revision) {
+                await this.updateSyncMarker(profile, effectiveGistId, gist);
+                await this.context.globalState.update(BASELINE_REVISIONS_KEY, baseline.revisions);
             }
+            return true;
 
         } catch (error: any) {
             console.error('Error downloading configurations:', error);
-            const errorMessage = error.response?.data?.message || (error instanceof Error ? error.message : String(error));
-            vscode.window.showErrorMessage(`Error downloading configurations: ${errorMessage}`);
-
-            // Specific handling if the Gist ID used (from config or state) was invalid
-            if (effectiveGistId && (error.response?.status === 404 || error.response?.status === 401 || error.response?.status === 403)) {
-                // If the problematic ID came from global state, clear it.
-                // If it came from config, we can't clear it, so just warn the user.
-                const configuredGistId = vscode.workspace.getConfiguration('settingsSave').get<string | null>('gistId');
-                if (configuredGistId && configuredGistId.trim() === effectiveGistId) {
-                    vscode.window.showErrorMessage(`The Gist ID configured in settings ('${effectiveGistId}') seems invalid or inaccessible. Please check the ID and GitHub permissions.`);
-                } else if (this.context.globalState.get<string>(GIST_ID_KEY) === effectiveGistId) {
-                    await this.context.globalState.update(GIST_ID_KEY, undefined);
-                    vscode.window.showWarningMessage(`Stored Gist ID ('${effectiveGistId}') was invalid or inaccessible and has been cleared from global state.`);
-                } else {
-                    vscode.window.showWarningMessage(`The Gist ID ('${effectiveGistId}') used was invalid or inaccessible.`);
-                }
-            }
+            const errorMessage = getErrorMessage(error);
+            this.showError(errorMessage, error);
+            this.setRunResult('failed', `Error downloading configurations: ${errorMessage}`);
+
+            await this.handleInvalidGistId(error, effectiveGistId, profile);
+            return false;
+        } finally {
+            this.silent = false;
+            await this.endSyncRun(previousRun);
         }
     }
 } 
\ No newline at end of file
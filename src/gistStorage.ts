@@ -0,0 +1,73 @@
+import { ApiClient } from './apiClient';
+import { StorageFileChanges, StorageFiles, StorageProvider, StorageRevision, StoredFiles } from './storageProvider';
+
+export const GITHUB_GISTS_URL = 'https://api.github.com/gists';
+
+// Stores files in Gists through the GitHub Gist API, or any endpoint implementing the same API
+// (GitHub Enterprise at https://<host>/api/v3/gists, or an internal server)
+export class GistStorage implements StorageProvider {
+    private gistsUrl: string;
+    private client: ApiClient;
+
+    // authorization is the complete header value, e.g. 'token <GitHub token>'; log receives retry messages
+    constructor(gistsUrl: string, authorization?: string, log?: (message: string) => void) {
+        this.gistsUrl = gistsUrl.replace(/\/+$/, '');
+        this.client = new ApiClient({
+            headers: {
+                'Accept': 'application/vnd.github.v3+json',
+                ...(authorization ? { 'Authorization': authorization } : {})
+            },
+            log
+        });
+    }
+
+    private async toStoredFiles(gist: any): Promise<StoredFiles> {
+        // The API lists a limited number of files and cannot page through the rest; a partial list would make the
+        // missing files look deleted
+        if (gist.truncated) {
+            throw new Error(`Gist ${gist.id} has more files than the API returns, so it cannot be synced completely. Remove files it no longer needs, e.g. of profiles or additional files you do not use any more.`);
+        }
+        return {
+            id: gist.id,
+            // The Gist's current revision (latest history entry, falling back to the update time)
+            revision: gist.history?.[0]?.version ?? gist.updated_at,
+            files: await this.readTruncatedFiles(gist.files ?? {})
+        };
+    }
+
+    // The API cuts the content of large files short and marks them as truncated; their full content is at raw_url
+    private async readTruncatedFiles(files: { [fileName: string]: any }): Promise<StorageFiles> {
+        const apiOrigin = new URL(this.gistsUrl).origin;
+        for (const file of Object.values(files)) {
+            if (file?.truncated && file.raw_url) {
+                // Raw files of GitHub Gists are served from another host, which must not get the API token
+                file.content = await this.client.getText(file.raw_url, new URL(file.raw_url).origin === apiOrigin);
+                file.truncated = false;
+            }
+        }
+        return files;
+    }
+
+    public async read(id: string, revision?: string): Promise<StoredFiles> {
+        const revisionPath = revision ? `/${revision}` : '';
+        return this.toStoredFiles(await this.client.get(`${this.gistsUrl}/${id}${revisionPath}`));
+    }
+
+    public async write(id: string | undefined, files: StorageFileChanges, description: string): Promise<StoredFiles> {
+        const payload = { description, files };
+        const gist = id
+            ? await this.client.patch(`${this.gistsUrl}/${id}`, payload)
+            : await this.client.post(this.gistsUrl, payload);
+        return this.toStoredFiles(gist);
+    }
+
+    public async listRevisions(id: string, limit: number): Promise<StorageRevision[]> {
+        const commits: any[] = await this.client.get(`${this.gistsUrl}/${id}/commits?per_page=${limit}`);
+        return commits.map(commit => ({
+            version: commit.version,
+            committedAt: commit.committed_at,
+            additions: commit.change_status?.additions,
+            deletions: commit.change_status?.deletions
+        }));
+    }
+}
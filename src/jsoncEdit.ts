@@ -0,0 +1,81 @@
+import { FormattingOptions, JSONPath, applyEdits, findNodeAtLocation, format, modify, parse as parseJsonc, parseTree } from 'jsonc-parser';
+import { Keybinding, SettingsObject, isDeepEqual, keybindingEntries } from './merge';
+
+// Formatting of existing JSON content (indentation and line endings), so edits match the file's own style
+export function detectFormatting(content: string): FormattingOptions {
+    const indentation = /^[ \t]+(?=\S)/m.exec(content)?.[0];
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    if (indentation?.startsWith('\t')) {
+        return { insertSpaces: false, tabSize: 4, eol };
+    }
+    return { insertSpaces: true, tabSize: indentation?.length || 4, eol };
+}
+
+// Sets (or, for undefined values, removes) the value at the path in JSON content. Only the new value is formatted:
+// formatting through modify() covers the whole lines of an insertion, and so reformats the entry before it.
+export function setJsonValue(content: string, path: JSONPath, value: any, formattingOptions: FormattingOptions, isArrayInsertion: boolean = false): string {
+    if (value === undefined) {
+        // Removals are not formatted, which would reformat the neighbouring entries as well
+        return applyEdits(content, modify(content, path, undefined, {}));
+    }
+    let result = content;
+    for (const edit of modify(content, path, value, { isArrayInsertion })) {
+        result = applyEdits(result, [edit]);
+        let range = { offset: edit.offset, length: edit.content.length };
+        // The first entry of an empty object or array is formatted with it, so it goes on a line of its own
+        if (edit.length === 0 && !edit.content.startsWith(',')) {
+            const root = parseTree(result);
+            const container = root && findNodeAtLocation(root, path.slice(0, -1));
+            if (container) {
+                range = { offset: container.offset, length: container.length };
+            }
+        }
+        result = applyEdits(result, format(result, range, formattingOptions));
+    }
+    return result;
+}
+
+// Sets (or, for undefined values, removes) settings in settings.json content, keeping the comments, order and
+// formatting of everything else; new settings are appended
+export function updateSettingsContent(content: string, settings: SettingsObject): string {
+    const formattingOptions = detectFormatting(content);
+    let result = content.trim() ? content : '{}';
+    for (const [key, value] of Object.entries(settings)) {
+        result = setJsonValue(result, [key], value, formattingOptions);
+    }
+    return result;
+}
+
+// Removes settings from settings.json content, keeping the comments and formatting of everything else
+export function removeSettings(content: string, keys: string[]): string {
+    return keys.reduce((result, key) => setJsonValue(result, [key], undefined, {}), content);
+}
+
+// Turns keybindings.json content into the given list: entries that are gone are removed, changed ones replaced and
+// new ones appended, keeping comments and the order of the remaining entries
+export function updateKeybindingsContent(content: string, keybindings: Keybinding[]): string {
+    const current = parseJsonc(content, [], { allowTrailingComma: true });
+    if (!Array.isArray(current)) {
+        return JSON.stringify(keybindings, null, 4);
+    }
+    const formattingOptions = detectFormatting(content);
+    const wanted = keybindingEntries(keybindings);
+    // Entry IDs are in list order, so they line up with the array indexes
+    const currentIds = [...keybindingEntries(current).keys()];
+    let result = content;
+    // From the end, so the indexes of earlier entries stay valid
+    for (let index = currentIds.length - 1; index >= 0; index--) {
+        const keybinding = wanted.get(currentIds[index]);
+        if (!keybinding) {
+            result = setJsonValue(result, [index], undefined, formattingOptions);
+        } else if (!isDeepEqual(keybinding, current[index])) {
+            result = setJsonValue(result, [index], keybinding, formattingOptions);
+        }
+    }
+    for (const [id, keybinding] of wanted) {
+        if (!currentIds.includes(id)) {
+            result = setJsonValue(result, [-1], keybinding, formattingOptions, true);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,68 @@
+import { parse as parseJsonc } from 'jsonc-parser';
+import { SettingsObject, isDeepEqual } from './merge';
+import { ExtensionEntry, findExtension, sortExtensions } from './extensionManifest';
+import { removeSettings } from './jsoncEdit';
+
+// Setting in a baseline's settings.json listing the keys that personal settings cannot override
+export const LOCKED_SETTINGS_KEY = 'settingsSave.lockedSettings';
+
+// Settings and extensions of one source: a team baseline or the personal Gist
+export interface SettingsLayer {
+    name: string;
+    baseline: boolean; // Only baselines can lock settings
+    settings: SettingsObject;
+    extensions: ExtensionEntry[];
+}
+
+export interface SettingSource {
+    layer: string;
+    locked: boolean;
+}
+
+export interface LayeredSettings {
+    settings: SettingsObject;
+    sources: { [key: string]: SettingSource };
+    lockedKeys: Set<string>; // Keys that keep the baseline value, whatever other layers or local edits say
+    extensions: ExtensionEntry[];
+}
+
+// Merges the layers key by key, later layers winning, except over keys locked by an earlier baseline.
+// Extension lists are unioned; for an extension listed more than once, the later entry wins.
+export function mergeLayers(layers: SettingsLayer[]): LayeredSettings {
+    const result: LayeredSettings = { settings: {}, sources: {}, lockedKeys: new Set(), extensions: [] };
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer.settings)) {
+            if (key === LOCKED_SETTINGS_KEY || result.sources[key]?.locked) {
+                continue;
+            }
+            result.settings[key] = value;
+            result.sources[key] = { layer: layer.name, locked: false };
+        }
+        if (layer.baseline) {
+            const lockedKeys: unknown = layer.settings[LOCKED_SETTINGS_KEY];
+            for (const key of Array.isArray(lockedKeys) ? lockedKeys : []) {
+                // A baseline can only lock the keys it sets
+                if (result.sources[key]?.layer === layer.name) {
+                    result.sources[key].locked = true;
+                    result.lockedKeys.add(key);
+                }
+            }
+        }
+        for (const extension of layer.extensions) {
+            result.extensions = [...result.extensions.filter(candidate => candidate !== findExtension(result.extensions, extension.id)), extension];
+        }
+    }
+    result.extensions = sortExtensions(result.extensions);
+    return result;
+}
+
+// Removes from settings.json content the settings the baselines provide anyway (locked ones and ones with the same value),
+// keeping comments and formatting of everything else, so the personal Gist only holds personal choices
+export function removeBaselineSettings(settingsContent: string, baseline: LayeredSettings): string {
+    const settings: SettingsObject = parseJsonc(settingsContent, [], { allowTrailingComma: true }) ?? {};
+    const baselineKeys = Object.keys(settings).filter(key => {
+        const source = baseline.sources[key];
+        return source && (source.locked || isDeepEqual(settings[key], baseline.settings[key]));
+    });
+    return removeSettings(settingsContent, baselineKeys);
+}
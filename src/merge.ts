@@ -0,0 +1,149 @@
+// Three-way merge of settings and keybindings (base = last synced state, local, remote)
+
+export type SettingsObject = { [key: string]: any };
+
+export interface Keybinding {
+    key: string;
+    command: string;
+    when?: string;
+    args?: any;
+}
+
+// An entry whose local and remote values differ (undefined means the entry is absent on that side)
+export interface EntryDifference<T> {
+    id: string;
+    label: string;
+    local: T | undefined;
+    remote: T | undefined;
+}
+
+// A change made on both sides since the last sync that cannot be merged automatically
+export interface MergeConflict<T> extends EntryDifference<T> {
+    base: T | undefined;
+}
+
+export interface MergeResult<T> {
+    // Merged entries in their final order; conflicting entries keep the local value until resolved
+    merged: Map<string, T>;
+    conflicts: MergeConflict<T>[];
+}
+
+// Structural equality for JSON values (object key order is ignored)
+export function isDeepEqual(a: any, b: any): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    if (Array.isArray(a)) {
+        return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+    }
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return aKeys.length === bKeys.length && aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]));
+}
+
+// Core merge: `ids` determines the order of the merged result
+function mergeEntries<T>(ids: string[], base: Map<string, T>, local: Map<string, T>, remote: Map<string, T>, labelOf: (id: string) => string): MergeResult<T> {
+    const merged = new Map<string, T>();
+    const conflicts: MergeConflict<T>[] = [];
+
+    for (const id of ids) {
+        const baseValue = base.get(id);
+        const localValue = local.get(id);
+        const remoteValue = remote.get(id);
+
+        let result: T | undefined;
+        if (isDeepEqual(localValue, remoteValue)) {
+            result = localValue; // Both sides agree (or neither changed)
+        } else if (isDeepEqual(localValue, baseValue)) {
+            result = remoteValue; // Only the remote side changed
+        } else if (isDeepEqual(remoteValue, baseValue)) {
+            result = localValue; // Only the local side changed
+        } else {
+            conflicts.push({ id, label: labelOf(id), base: baseValue, local: localValue, remote: remoteValue });
+            result = localValue;
+        }
+
+        if (result !== undefined) {
+            merged.set(id, result);
+        }
+    }
+
+    return { merged, conflicts };
+}
+
+// Returns a copy of the entries with the remote value taken for each of the given differences
+export function takeRemoteValues<T>(entries: Map<string, T>, takeRemote: EntryDifference<T>[]): Map<string, T> {
+    const result = new Map(entries);
+    for (const difference of takeRemote) {
+        if (difference.remote === undefined) {
+            result.delete(difference.id);
+        } else {
+            result.set(difference.id, difference.remote);
+        }
+    }
+    return result;
+}
+
+// Returns the merged entries after taking the remote value for the given conflicts
+export function resolveConflicts<T>(result: MergeResult<T>, takeRemote: MergeConflict<T>[]): Map<string, T> {
+    return takeRemoteValues(result.merged, takeRemote);
+}
+
+// Lists the entries that differ between local and remote, in local order followed by remote-only entries
+function diffEntries<T>(local: Map<string, T>, remote: Map<string, T>, labelOf: (id: string) => string): EntryDifference<T>[] {
+    const ids = [...new Set([...local.keys(), ...remote.keys()])];
+    return ids
+        .filter(id => !isDeepEqual(local.get(id), remote.get(id)))
+        .map(id => ({ id, label: labelOf(id), local: local.get(id), remote: remote.get(id) }));
+}
+
+function toMap(object: SettingsObject): Map<string, any> {
+    return new Map(Object.entries(object));
+}
+
+export function diffSettings(local: SettingsObject, remote: SettingsObject): EntryDifference<any>[] {
+    return diffEntries(toMap(local), toMap(remote), id => id);
+}
+
+// Merges settings key by key
+export function mergeSettings(base: SettingsObject, local: SettingsObject, remote: SettingsObject): MergeResult<any> {
+    const ids = [...new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base)])];
+    return mergeEntries(ids, toMap(base), toMap(local), toMap(remote), id => id);
+}
+
+// Identifies a keybinding entry by key, command and when clause; repeated entries get an occurrence suffix
+export function keybindingEntries(keybindings: Keybinding[]): Map<string, Keybinding> {
+    const entries = new Map<string, Keybinding>();
+    const occurrences = new Map<string, number>();
+    for (const keybinding of keybindings) {
+        const identity = JSON.stringify([keybinding.key, keybinding.command, keybinding.when ?? '']);
+        const occurrence = occurrences.get(identity) ?? 0;
+        occurrences.set(identity, occurrence + 1);
+        entries.set(`${identity}#${occurrence}`, keybinding);
+    }
+    return entries;
+}
+
+function describeKeybindingId(id: string): string {
+    const [key, command, when] = JSON.parse(id.substring(0, id.lastIndexOf('#')));
+    return when ? `${key} → ${command} (when ${when})` : `${key} → ${command}`;
+}
+
+// Merges keybindings entry by entry, keeping local order and appending new remote entries
+export function mergeKeybindings(base: Keybinding[], local: Keybinding[], remote: Keybinding[]): MergeResult<Keybinding> {
+    const baseEntries = keybindingEntries(base);
+    const localEntries = keybindingEntries(local);
+    const remoteEntries = keybindingEntries(remote);
+    const ids = [...new Set([...localEntries.keys(), ...remoteEntries.keys(), ...baseEntries.keys()])];
+    return mergeEntries(ids, baseEntries, localEntries, remoteEntries, describeKeybindingId);
+}
+
+export function diffKeybindings(local: Keybinding[], remote: Keybinding[]): EntryDifference<Keybinding>[] {
+    return diffEntries(keybindingEntries(local), keybindingEntries(remote), describeKeybindingId);
+}
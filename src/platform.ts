@@ -0,0 +1,63 @@
+import * as os from 'os';
+import { Keybinding, SettingsObject } from './merge';
+
+export const SUPPORTED_PLATFORMS = ['win32', 'darwin', 'linux'];
+
+// Setting holding per-platform values, e.g. { "darwin": { "terminal.external.osxExec": "iTerm.app" } }
+export const PLATFORM_SETTINGS_KEY = 'settingsSave.platformSettings';
+
+export function getCurrentPlatform(): string {
+    return os.platform();
+}
+
+// Gist file name of the keybindings uploaded from the given platform
+export function getPlatformKeybindingsFileName(platform: string): string {
+    return `keybindings.${platform}.json`;
+}
+
+// Swaps the primary modifier between macOS (cmd) and Windows/Linux (ctrl) in every chord of a key
+function translateKey(key: string, from: string, to: string): string {
+    const fromModifier = from === 'darwin' ? 'cmd' : 'ctrl';
+    const toModifier = to === 'darwin' ? 'cmd' : 'ctrl';
+    if (fromModifier === toModifier) {
+        return key;
+    }
+    return key.split(' ')
+        .map(chord => chord.split('+').map(part => part.toLowerCase() === fromModifier ? toModifier : part).join('+'))
+        .join(' ');
+}
+
+// Translates keybindings written on one platform for use on another
+export function translateKeybindings(keybindings: Keybinding[], from: string, to: string): Keybinding[] {
+    return keybindings.map(keybinding => ({ ...keybinding, key: translateKey(keybinding.key, from, to) }));
+}
+
+// Returns the settings with the values from the platform settings block for the given platform applied on top
+export function applyPlatformSettings(settings: SettingsObject, platform: string): SettingsObject {
+    const platformSettings = settings[PLATFORM_SETTINGS_KEY]?.[platform];
+    if (!platformSettings || typeof platformSettings !== 'object') {
+        return settings;
+    }
+    return { ...settings, ...platformSettings };
+}
+
+// Returns the settings with the given keys set to their effective value in localSettings on the platform (removed if
+// they have none there), also taking them out of that platform's settings block so it does not override them again
+export function keepLocalSettings(settings: SettingsObject, localSettings: SettingsObject, keys: string[], platform: string): SettingsObject {
+    const result: SettingsObject = { ...settings };
+    const localValues = applyPlatformSettings(localSettings, platform);
+    const platformSettings = settings[PLATFORM_SETTINGS_KEY]?.[platform];
+    const keptPlatformSettings = platformSettings && typeof platformSettings === 'object' ? { ...platformSettings } : undefined;
+    for (const key of keys) {
+        if (key in localValues) {
+            result[key] = localValues[key];
+        } else {
+            delete result[key];
+        }
+        delete keptPlatformSettings?.[key];
+    }
+    if (keptPlatformSettings) {
+        result[PLATFORM_SETTINGS_KEY] = { ...settings[PLATFORM_SETTINGS_KEY], [platform]: keptPlatformSettings };
+    }
+    return result;
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+
+const PROFILES_KEY = 'settingsSave.profiles';
+const ACTIVE_PROFILE_KEY = 'settingsSave.activeProfile';
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export interface Profile {
+    name: string;
+    // 'ownGist': the profile has a Gist of its own; 'sharedGist': its files live in the default profile's Gist under a name prefix
+    storage: 'ownGist' | 'sharedGist';
+    gistId?: string; // Only for 'ownGist' profiles; unset until given or created by the first upload
+}
+
+// The default profile uses the `settingsSave.gistId` setting or the Gist ID stored in global state
+const DEFAULT_PROFILE: Profile = { name: DEFAULT_PROFILE_NAME, storage: 'ownGist' };
+
+// Named sets of settings (e.g. "work", "personal") that can be uploaded, downloaded and switched between
+export class ProfileService {
+    private static instance: ProfileService;
+    private context: vscode.ExtensionContext;
+    private onDidChangeActiveProfileEmitter = new vscode.EventEmitter<Profile>();
+    public readonly onDidChangeActiveProfile = this.onDidChangeActiveProfileEmitter.event;
+
+    private constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): ProfileService {
+        if (!ProfileService.instance) {
+            ProfileService.instance = new ProfileService(context);
+        }
+        ProfileService.instance.context = context;
+        return ProfileService.instance;
+    }
+
+    // All profiles, the default profile first
+    public getProfiles(): Profile[] {
+        return [DEFAULT_PROFILE, ...this.context.globalState.get<Profile[]>(PROFILES_KEY, [])];
+    }
+
+    // Gets a profile by name, or the active profile if no name is given
+    public getProfile(name?: string): Profile {
+        const profileName = name ?? this.context.globalState.get<string>(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_NAME);
+        const profile = this.getProfiles().find(candidate => candidate.name === profileName);
+        if (!profile) {
+            if (name === undefined) {
+                return DEFAULT_PROFILE; // The active profile was removed
+            }
+            throw new Error(`Unknown profile: ${name}`);
+        }
+        return profile;
+    }
+
+    public isDefaultProfile(profile: Profile): boolean {
+        return profile.name === DEFAULT_PROFILE_NAME;
+    }
+
+    public async setActiveProfile(name: string): Promise<void> {
+        const profile = this.getProfile(name);
+        await this.context.globalState.update(ACTIVE_PROFILE_KEY, profile.name);
+        this.onDidChangeActiveProfileEmitter.fire(profile);
+    }
+
+    private async saveProfiles(profiles: Profile[]): Promise<void> {
+        await this.context.globalState.update(PROFILES_KEY, profiles.filter(profile => !this.isDefaultProfile(profile)));
+    }
+
+    public async setProfileGistId(name: string, gistId: string | undefined): Promise<void> {
+        const profiles = this.getProfiles();
+        const profile = profiles.find(candidate => candidate.name === name);
+        if (profile && !this.isDefaultProfile(profile)) {
+            profile.gistId = gistId;
+            await this.saveProfiles(profiles);
+        }
+    }
+
+    // Prefix of the profile's file names inside the Gist ('work.settings.json' for a shared 'work' profile)
+    public getFilePrefix(profile: Profile): string {
+        return profile.storage === 'sharedGist' ? `${profile.name}.` : '';
+    }
+
+    // Global state key for per-profile sync state; the default profile keeps the original key
+    public getStateKey(key: string, profile: Profile): string {
+        return this.isDefaultProfile(profile) ? key : `${key}.${profile.name}`;
+    }
+
+    // Asks for the name and storage of a new profile; returns undefined if cancelled
+    public async createProfile(): Promise<Profile | undefined> {
+        const existingNames = this.getProfiles().map(profile => profile.name);
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the new profile (e.g. work, personal, teaching)',
+            validateInput: value => {
+                if (!/^[A-Za-z0-9_-]+$/.test(value)) {
+                    return 'Use letters, digits, "-" and "_" only.';
+                }
+                return existingNames.includes(value) ? `A profile named "${value}" already exists.` : undefined;
+            }
+        });
+        if (!name) {
+            return undefined;
+        }
+
+        const storage = await vscode.window.showQuickPick([
+            { label: 'Own Gist', detail: 'Use a separate Gist for this profile (an existing one, or a new one created on the first upload)', storage: 'ownGist' as const },
+            { label: 'Shared Gist', detail: `Store the files as ${name}.settings.json etc. in the default profile's Gist`, storage: 'sharedGist' as const }
+        ], { placeHolder: `Where should the "${name}" profile be stored?` });
+        if (!storage) {
+            return undefined;
+        }
+
+        const profile: Profile = { name, storage: storage.storage };
+        if (storage.storage === 'ownGist') {
+            const gistId = await vscode.window.showInputBox({ prompt: 'ID of an existing Gist to use (leave empty to create one on the first upload)' });
+            if (gistId === undefined) {
+                return undefined;
+            }
+            profile.gistId = gistId.trim() || undefined;
+        }
+
+        await this.saveProfiles([...this.getProfiles(), profile]);
+        return profile;
+    }
+
+    // Lets the user pick a profile; returns undefined if cancelled
+    public async pickProfile(placeHolder: string): Promise<Profile | undefined> {
+        const activeProfile = this.getProfile();
+        const selected = await vscode.window.showQuickPick(this.getProfiles().map(profile => ({
+            label: profile.name,
+            description: profile.name === activeProfile.name ? 'active' : undefined,
+            detail: profile.storage === 'sharedGist' ? 'Shared Gist' : profile.gistId ? `Gist ${profile.gistId}` : this.isDefaultProfile(profile) ? 'Default Gist' : 'Own Gist (created on first upload)',
+            profile: profile
+        })), { placeHolder });
+        return selected?.profile;
+    }
+
+    // Status bar item showing the active profile; clicking it switches profiles
+    public createStatusBarItem(): vscode.Disposable {
+        const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+        statusBarItem.command = 'settings-save.switchProfile';
+        const update = (profile: Profile) => {
+            statusBarItem.text = `$(account) ${profile.name}`;
+            statusBarItem.tooltip = `Settings Save profile: ${profile.name} (click to switch)`;
+        };
+        update(this.getProfile());
+        statusBarItem.show();
+        const listener = this.onDidChangeActiveProfile(update);
+        return vscode.Disposable.from(statusBarItem, listener);
+    }
+}
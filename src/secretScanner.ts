@@ -0,0 +1,152 @@
+import { JSONPath, parse as parseJsonc } from 'jsonc-parser';
+import { detectFormatting, setJsonValue } from './jsoncEdit';
+import { SettingsObject } from './merge';
+
+// Replaces redacted values in the uploaded settings.json; on download the local value is kept instead
+export const SECRET_PLACEHOLDER = '<redacted by Settings Save>';
+
+export interface SecretFinding {
+    path: JSONPath;
+    label: string; // e.g. 'rest-client.environmentVariables > production > apiKey'
+    reason: string;
+}
+
+// Last segment of a setting name or a property name that suggests a credential
+const SECRET_KEY_PATTERN = /token|password|passwd|secret|api[-_]?key|credential/i;
+
+// Well-known credential formats
+const SECRET_FORMATS: { name: string; pattern: RegExp }[] = [
+    { name: 'GitHub token', pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/ },
+    { name: 'AWS access key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/ },
+    { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+    { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+    { name: 'OpenAI API key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/ },
+    { name: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/ },
+    { name: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+/ },
+    { name: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+    { name: 'URL with credentials', pattern: /[a-z][a-z0-9+.-]*:\/\/[^\s/:@]+:[^\s/@]+@/i }
+];
+
+// Shannon entropy in bits per character
+function getEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+// Long random-looking strings of token characters (hex hashes stay below the threshold)
+function isHighEntropy(value: string): boolean {
+    return value.length >= 24
+        && /^[A-Za-z0-9+/=_.~-]+$/.test(value)
+        && /[A-Za-z]/.test(value) && /[0-9]/.test(value)
+        && getEntropy(value) >= 4;
+}
+
+// File system paths and URLs, which are long and mixed but not random (a leading '/', '~' or drive letter, a URL
+// scheme, or several path separators)
+function isPathOrUrl(value: string): boolean {
+    return /^([/\\~]|[A-Za-z]:[/\\]|[a-z][a-z0-9+.-]*:\/\/)/i.test(value)
+        || (value.match(/[/\\]/g)?.length ?? 0) >= 2;
+}
+
+// Values that are not secrets themselves, even under a suspicious name
+function isHarmlessValue(value: string): boolean {
+    return value.trim() === ''
+        || value === SECRET_PLACEHOLDER
+        || /^\$\{[^}]+\}$/.test(value.trim()) // Variable references such as ${env:GITHUB_TOKEN}
+        || /^#[0-9a-f]{3,8}$/i.test(value); // Colors, e.g. in token color customizations
+}
+
+function getSecretReason(key: string | number, value: string): string | undefined {
+    if (isHarmlessValue(value)) {
+        return undefined;
+    }
+    const format = SECRET_FORMATS.find(candidate => candidate.pattern.test(value));
+    if (format) {
+        return format.name;
+    }
+    const name = typeof key === 'string' ? key.split('.').pop() ?? key : '';
+    if (SECRET_KEY_PATTERN.test(name)) {
+        return 'credential-like name';
+    }
+    return isHighEntropy(value) && !isPathOrUrl(value) ? 'high-entropy value' : undefined;
+}
+
+// Finds string values in settings.json content that are likely credentials, including nested ones
+export function findSecrets(settingsContent: string): SecretFinding[] {
+    const settings: SettingsObject = parseJsonc(settingsContent, [], { allowTrailingComma: true }) ?? {};
+    const findings: SecretFinding[] = [];
+    const visit = (value: any, path: JSONPath) => {
+        if (typeof value === 'string') {
+            const reason = getSecretReason(path[path.length - 1], value);
+            if (reason) {
+                findings.push({ path, label: path.join(' > '), reason });
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach((item, index) => visit(item, [...path, index]));
+        } else if (value && typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                visit(child, [...path, key]);
+            }
+        }
+    };
+    for (const [key, value] of Object.entries(settings)) {
+        visit(value, [key]);
+    }
+    return findings;
+}
+
+// Replaces the found values with the placeholder, keeping comments and formatting of everything else
+export function redactSecrets(settingsContent: string, findings: SecretFinding[]): string {
+    const formattingOptions = detectFormatting(settingsContent);
+    let content = settingsContent;
+    for (const finding of findings) {
+        content = setJsonValue(content, finding.path, SECRET_PLACEHOLDER, formattingOptions);
+    }
+    return content;
+}
+
+export function containsSecretPlaceholder(value: any): boolean {
+    if (value === SECRET_PLACEHOLDER) {
+        return true;
+    }
+    if (value && typeof value === 'object') {
+        return Object.values(value).some(containsSecretPlaceholder);
+    }
+    return false;
+}
+
+// Puts the local values in place of placeholders; placeholders without a local value are dropped (undefined at the top)
+export function restoreRedactedValue(value: any, localValue: any): any {
+    if (value === SECRET_PLACEHOLDER) {
+        return localValue;
+    }
+    if (Array.isArray(value)) {
+        return value
+            .map((item, index) => restoreRedactedValue(item, Array.isArray(localValue) ? localValue[index] : undefined))
+            .filter(item => item !== undefined);
+    }
+    if (value && typeof value === 'object') {
+        const restored: SettingsObject = {};
+        for (const [key, child] of Object.entries(value)) {
+            const restoredChild = restoreRedactedValue(child, localValue && typeof localValue === 'object' ? localValue[key] : undefined);
+            if (restoredChild !== undefined) {
+                restored[key] = restoredChild;
+            }
+        }
+        return restored;
+    }
+    return value;
+}
+
+// Restores redacted values in a whole settings object from the local settings
+export function restoreRedactedValues(settings: SettingsObject, localSettings: SettingsObject): SettingsObject {
+    return restoreRedactedValue(settings, localSettings) ?? {};
+}
@@ -0,0 +1,38 @@
+import { isRateLimitError } from './apiClient';
+
+// Files of a store, by file name
+export type StorageFiles = { [fileName: string]: { content?: string } };
+
+// Changes to write; a null entry deletes that file
+export type StorageFileChanges = { [fileName: string]: { content: string } | null };
+
+// A store's files at one revision
+export interface StoredFiles {
+    id: string;
+    revision?: string;
+    files: StorageFiles;
+}
+
+export interface StorageRevision {
+    version: string;
+    committedAt: string;
+    additions?: number;
+    deletions?: number;
+}
+
+// Where the synced files live: a GitHub Gist, a folder or a Gist-compatible HTTP endpoint.
+// A backend holds any number of stores (one per profile with a store of its own), each identified by an ID.
+export interface StorageProvider {
+    // Reads a store, at the given revision or the latest one
+    read(id: string, revision?: string): Promise<StoredFiles>;
+    // Writes the changes to the store with the given ID, or creates a new store if no ID is given
+    write(id: string | undefined, files: StorageFileChanges, description: string): Promise<StoredFiles>;
+    // The store's revisions, newest first
+    listRevisions(id: string, limit: number): Promise<StorageRevision[]>;
+}
+
+// True if the error says that the store does not exist or may not be accessed (a rate limit says neither)
+export function isStoreNotFoundError(error: any): boolean {
+    const status = error?.response?.status;
+    return (status === 404 || status === 401 || status === 403) && !isRateLimitError(error) || error?.code === 'ENOENT';
+}
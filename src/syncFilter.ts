@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { removeSettings } from './jsoncEdit';
+import { SettingsObject } from './merge';
+
+// Converts a glob pattern ('*' matches any characters, including dots) into a regular expression
+function globToRegExp(pattern: string, flags: string): RegExp {
+    const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, flags);
+}
+
+// Settings that installed extensions (including built-in ones) declare with the 'machine' or 'machine-overridable' scope
+function getMachineScopedSettings(): Set<string> {
+    const keys = new Set<string>();
+    for (const extension of vscode.extensions.all) {
+        const configuration = extension.packageJSON.contributes?.configuration;
+        const sections: any[] = Array.isArray(configuration) ? configuration : configuration ? [configuration] : [];
+        for (const section of sections) {
+            for (const [key, schema] of Object.entries<any>(section?.properties ?? {})) {
+                if (schema?.scope === 'machine' || schema?.scope === 'machine-overridable') {
+                    keys.add(key);
+                }
+            }
+        }
+    }
+    return keys;
+}
+
+// Decides which settings and extensions stay out of syncing, in both directions, based on the ignore settings.
+// Create one per sync run so configuration changes are picked up.
+export class SyncFilter {
+    private ignoredSettings: RegExp[];
+    private ignoredExtensions: RegExp[];
+    private machineScopedSettings: Set<string>;
+
+    constructor() {
+        const extensionConfig = vscode.workspace.getConfiguration('settingsSave');
+        this.ignoredSettings = (extensionConfig.get<string[]>('ignoredSettings') ?? []).map(pattern => globToRegExp(pattern, ''));
+        // Extension IDs are case-insensitive
+        this.ignoredExtensions = (extensionConfig.get<string[]>('ignoredExtensions') ?? []).map(pattern => globToRegExp(pattern, 'i'));
+        this.machineScopedSettings = (extensionConfig.get<boolean>('ignoreMachineSettings') ?? true) ? getMachineScopedSettings() : new Set();
+    }
+
+    public isSettingIgnored(key: string): boolean {
+        return this.machineScopedSettings.has(key) || this.ignoredSettings.some(pattern => pattern.test(key));
+    }
+
+    public isExtensionIgnored(extensionId: string): boolean {
+        return this.ignoredExtensions.some(pattern => pattern.test(extensionId));
+    }
+
+    public filterSettings(settings: SettingsObject): SettingsObject {
+        return Object.fromEntries(Object.entries(settings).filter(([key]) => !this.isSettingIgnored(key)));
+    }
+
+    // Removes ignored settings from settings.json content, keeping comments and formatting of everything else
+    public removeIgnoredSettings(settingsContent: string): string {
+        const settings: SettingsObject = parseJsonc(settingsContent, [], { allowTrailingComma: true }) ?? {};
+        return removeSettings(settingsContent, Object.keys(settings).filter(key => this.isSettingIgnored(key)));
+    }
+}
@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+
+const SYNC_HISTORY_KEY = 'settingsSave.syncHistory';
+// Number of runs kept in the history, and of items kept per run
+const MAX_RUNS = 50;
+const MAX_ITEMS_PER_RUN = 500;
+
+// 'skipped': there was nothing to do; 'cancelled': stopped by the user
+export type SyncRunState = 'running' | 'succeeded' | 'warning' | 'failed' | 'skipped' | 'cancelled';
+export type SyncItemOutcome = 'applied' | 'unchanged' | 'skipped' | 'failed';
+
+// What happened to one setting, keybindings file, extension or file during a run
+export interface SyncRunItem {
+    group: string; // e.g. 'settings.json' or 'extensions'
+    label: string;
+    outcome: SyncItemOutcome;
+    detail?: string;
+}
+
+// One upload, download or restore
+export interface SyncRun {
+    id: string;
+    title: string;
+    auto: boolean;
+    startedAt: string;
+    finishedAt?: string;
+    state: SyncRunState;
+    summary?: string;
+    warnings: number;
+    items: SyncRunItem[];
+}
+
+type SyncLogNode = { run: SyncRun, item?: SyncRunItem };
+
+// Records sync runs: writes them to the "Settings Save" output channel, keeps a history for the sync history view
+// and the status bar, and shows one summary notification per run
+export class SyncLog implements vscode.Disposable, vscode.TreeDataProvider<SyncLogNode> {
+    private static instance: SyncLog;
+    private context: vscode.ExtensionContext;
+    private outputChannel: vscode.OutputChannel;
+    private runs: SyncRun[];
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+    public readonly onDidChangeTreeData = this.onDidChangeEmitter.event;
+
+    private constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+        this.outputChannel = vscode.window.createOutputChannel('Settings Save');
+        this.runs = context.globalState.get<SyncRun[]>(SYNC_HISTORY_KEY, []);
+    }
+
+    public static getInstance(context: vscode.ExtensionContext): SyncLog {
+        if (!SyncLog.instance) {
+            SyncLog.instance = new SyncLog(context);
+        }
+        SyncLog.instance.context = context;
+        return SyncLog.instance;
+    }
+
+    public dispose(): void {
+        this.outputChannel.dispose();
+        this.onDidChangeEmitter.dispose();
+    }
+
+    public showOutput(): void {
+        this.outputChannel.show(true);
+    }
+
+    // Runs, newest first
+    public getRuns(): SyncRun[] {
+        return this.runs;
+    }
+
+    public async clearHistory(): Promise<void> {
+        this.runs = this.runs.filter(run => run.state === 'running');
+        await this.save();
+    }
+
+    private write(message: string): void {
+        this.outputChannel.appendLine(`[${new Date().toLocaleString()}] ${message}`);
+    }
+
+    private async save(): Promise<void> {
+        this.onDidChangeEmitter.fire();
+        await this.context.globalState.update(SYNC_HISTORY_KEY, this.runs.filter(run => run.state !== 'running'));
+    }
+
+    public startRun(title: string, auto: boolean): SyncRun {
+        const run: SyncRun = {
+            id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+            title,
+            auto,
+            startedAt: new Date().toISOString(),
+            state: 'running',
+            warnings: 0,
+            items: []
+        };
+        this.runs = [run, ...this.runs].slice(0, MAX_RUNS);
+        this.write(`${title}${auto ? ' (auto sync)' : ''} started`);
+        this.onDidChangeEmitter.fire();
+        return run;
+    }
+
+    public info(message: string): void {
+        this.write(`  ${message}`);
+    }
+
+    public warn(run: SyncRun, message: string): void {
+        run.warnings++;
+        this.write(`  Warning: ${message}`);
+    }
+
+    public error(run: SyncRun, message: string, error?: unknown): void {
+        run.warnings++;
+        this.write(`  Error: ${message}`);
+        if (error instanceof Error && error.stack) {
+            this.write(`    ${error.stack.split('\n').join('\n    ')}`);
+        }
+    }
+
+    public addItem(run: SyncRun, item: SyncRunItem): void {
+        if (run.items.length < MAX_ITEMS_PER_RUN) {
+            run.items.push(item);
+        }
+        this.write(`  ${item.outcome.padEnd(9)} ${item.group}: ${item.label}${item.detail ? ` (${item.detail})` : ''}`);
+    }
+
+    // Sets how the run ended and its summary
+    public setResult(run: SyncRun, state: Exclude<SyncRunState, 'running'>, summary: string): void {
+        run.state = state;
+        run.summary = summary;
+    }
+
+    // Counts of the item outcomes, e.g. '12 applied, 2 skipped'
+    public describeItems(run: SyncRun): string {
+        const counts = new Map<SyncItemOutcome, number>();
+        for (const item of run.items) {
+            counts.set(item.outcome, (counts.get(item.outcome) ?? 0) + 1);
+        }
+        return (['applied', 'skipped', 'failed'] as SyncItemOutcome[])
+            .filter(outcome => counts.has(outcome))
+            .map(outcome => `${counts.get(outcome)} ${outcome}`)
+            .join(', ');
+    }
+
+    // Ends the run and shows its summary: failures and warnings always, other results only for runs started by the user
+    // (and never for runs the user cancelled). Runs that succeed (or finish without a result) count as warning if
+    // anything went wrong.
+    public async finishRun(run: SyncRun): Promise<void> {
+        if (run.state === 'running' || run.state === 'succeeded') {
+            run.state = run.warnings > 0 || run.items.some(item => item.outcome === 'failed') ? 'warning' : 'succeeded';
+        }
+        run.finishedAt = new Date().toISOString();
+        const itemCounts = this.describeItems(run);
+        const summary = `${run.summary ?? `${run.title} finished.`}${itemCounts ? ` (${itemCounts})` : ''}`;
+        this.write(`${run.title} ${run.state}: ${summary}`);
+        await this.save();
+
+        const message = run.auto ? `Settings Save: ${summary}` : summary;
+        let notification: Thenable<string | undefined> | undefined;
+        if (run.state === 'failed') {
+            notification = vscode.window.showErrorMessage(message, 'Show Log');
+        } else if (run.state === 'warning') {
+            notification = vscode.window.showWarningMessage(message, 'Show Log');
+        } else if (!run.auto && run.state !== 'cancelled') {
+            notification = vscode.window.showInformationMessage(message, 'Show Log');
+        }
+        notification?.then(choice => {
+            if (choice === 'Show Log') {
+                this.showOutput();
+            }
+        });
+    }
+
+    // Status bar item with the time and state of the last sync; clicking it shows the log
+    public createStatusBarItem(): vscode.Disposable {
+        const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+        statusBarItem.command = 'settings-save.showLog';
+        const update = () => {
+            const lastRun = this.runs[0];
+            if (!lastRun) {
+                statusBarItem.text = '$(sync) Not synced';
+                statusBarItem.tooltip = 'Settings Save: no sync yet';
+            } else if (lastRun.state === 'running') {
+                statusBarItem.text = '$(sync~spin) Syncing...';
+                statusBarItem.tooltip = `Settings Save: ${lastRun.title}`;
+            } else {
+                statusBarItem.text = `$(${this.getStateIcon(lastRun.state)}) ${this.formatAge(lastRun.finishedAt ?? lastRun.startedAt)}`;
+                statusBarItem.tooltip = `Settings Save: ${lastRun.title} ${lastRun.state}\n${lastRun.summary ?? ''}\n(click to show the log)`;
+            }
+        };
+        update();
+        statusBarItem.show();
+        const listener = this.onDidChange(update);
+        // Keep the relative time current
+        const timer = setInterval(update, 60 * 1000);
+        return vscode.Disposable.from(statusBarItem, listener, { dispose: () => clearInterval(timer) });
+    }
+
+    // Codicon name of a run state
+    private getStateIcon(state: SyncRunState): string {
+        switch (state) {
+            case 'succeeded': return 'check';
+            case 'warning': return 'warning';
+            case 'failed': return 'error';
+            case 'skipped': return 'dash';
+            case 'cancelled': return 'circle-slash';
+            default: return 'sync';
+        }
+    }
+
+    private formatAge(timestamp: string): string {
+        const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+        if (minutes < 1) {
+            return 'Synced just now';
+        }
+        if (minutes < 60) {
+            return `Synced ${minutes} min ago`;
+        }
+        const hours = Math.floor(minutes / 60);
+        return hours < 24 ? `Synced ${hours} h ago` : `Synced ${new Date(timestamp).toLocaleDateString()}`;
+    }
+
+    // --- Sync history view ---
+
+    public getChildren(node?: SyncLogNode): SyncLogNode[] {
+        if (!node) {
+            return this.runs.map(run => ({ run }));
+        }
+        return node.item ? [] : node.run.items.map(item => ({ run: node.run, item }));
+    }
+
+    public getTreeItem(node: SyncLogNode): vscode.TreeItem {
+        if (node.item) {
+            const item = node.item;
+            const treeItem = new vscode.TreeItem(item.label, vscode.TreeItemCollapsibleState.None);
+            treeItem.description = `${item.outcome} · ${item.group}`;
+            treeItem.tooltip = item.detail ? `${item.group}: ${item.label}\n${item.detail}` : `${item.group}: ${item.label}`;
+            treeItem.iconPath = new vscode.ThemeIcon(item.outcome === 'failed' ? 'error' : item.outcome === 'skipped' ? 'debug-step-over' : item.outcome === 'unchanged' ? 'circle-outline' : 'check');
+            return treeItem;
+        }
+        const run = node.run;
+        const treeItem = new vscode.TreeItem(run.title, run.items.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        treeItem.id = run.id;
+        treeItem.description = `${new Date(run.startedAt).toLocaleString()}${run.auto ? ' · auto' : ''}`;
+        treeItem.tooltip = `${run.title} ${run.state}${run.summary ? `\n${run.summary}` : ''}`;
+        treeItem.iconPath = new vscode.ThemeIcon(this.getStateIcon(run.state));
+        return treeItem;
+    }
+}
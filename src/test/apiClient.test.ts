@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { ApiClient, isNetworkError, isOfflineError, isRateLimitError } from '../apiClient';
+import { isStoreNotFoundError } from '../storageProvider';
+import { MockServer, sendJson, startMockServer } from './mockServer';
+
+const RATE_LIMIT_REMAINING_HEADER = 'x-ratelimit-remaining';
+const RATE_LIMIT_RESET_HEADER = 'x-ratelimit-reset';
+
+suite('ApiClient', () => {
+    let server: MockServer | undefined;
+
+    teardown(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    test('retries server errors of idempotent requests', async () => {
+        server = await startMockServer((_request, response) => {
+            if (server!.requests.length < 3) {
+                sendJson(response, 502, { message: 'Bad Gateway' });
+            } else {
+                sendJson(response, 200, { id: 'gist' });
+            }
+        });
+        const messages: string[] = [];
+        const client = new ApiClient({ retryDelayMs: 1, log: message => messages.push(message) });
+
+        assert.deepStrictEqual(await client.get(`${server.url}/gists/gist`), { id: 'gist' });
+        assert.strictEqual(server.requests.length, 3);
+        assert.strictEqual(messages.length, 2);
+        assert.match(messages[0], /^GET .*\/gists\/gist failed \(Bad Gateway\), retrying/);
+    });
+
+    test('gives up after the last retry', async () => {
+        server = await startMockServer((_request, response) => sendJson(response, 502, { message: 'Bad Gateway' }));
+        const client = new ApiClient({ maxRetries: 2, retryDelayMs: 1, log: () => undefined });
+
+        await assert.rejects(client.get(`${server.url}/gists/gist`), (error: any) => error.response?.status === 502);
+        assert.strictEqual(server.requests.length, 3);
+    });
+
+    test('does not retry server errors of requests that are not idempotent', async () => {
+        server = await startMockServer((_request, response) => sendJson(response, 502, { message: 'Bad Gateway' }));
+        const client = new ApiClient({ retryDelayMs: 1 });
+
+        await assert.rejects(client.post(`${server.url}/gists`, {}), (error: any) => error.response?.status === 502);
+        assert.strictEqual(server.requests.length, 1);
+    });
+
+    test('fails with a readable message for a rate limit that resets too late', async () => {
+        const reset = Math.floor(Date.now() / 1000) + 3600;
+        server = await startMockServer((_request, response) => sendJson(response, 403, { message: 'API rate limit exceeded' }, {
+            [RATE_LIMIT_REMAINING_HEADER]: '0',
+            [RATE_LIMIT_RESET_HEADER]: String(reset)
+        }));
+        const client = new ApiClient({ retryDelayMs: 1, maxRateLimitWaitMs: 1000 });
+
+        await assert.rejects(client.get(`${server.url}/gists/gist`), (error: any) => {
+            assert.match(error.message, /^API rate limit exceeded\. Try again after /);
+            // A rate limit says nothing about whether the store exists
+            return !isStoreNotFoundError(error);
+        });
+        assert.strictEqual(server.requests.length, 1);
+    });
+
+    test('passes on a 403 that is not a rate limit', async () => {
+        server = await startMockServer((_request, response) => sendJson(response, 403, { message: 'Forbidden' }, { [RATE_LIMIT_REMAINING_HEADER]: '4999' }));
+        const client = new ApiClient({ retryDelayMs: 1 });
+
+        await assert.rejects(client.get(`${server.url}/gists/gist`), (error: any) => !isRateLimitError(error) && isStoreNotFoundError(error));
+        assert.strictEqual(server.requests.length, 1);
+    });
+
+    test('retries idempotent requests whose connection dropped', async () => {
+        server = await startMockServer((request, response) => {
+            if (server!.requests.length === 1) {
+                request.socket.destroy();
+            } else {
+                sendJson(response, 200, { id: 'gist' });
+            }
+        });
+        const client = new ApiClient({ retryDelayMs: 1, log: () => undefined });
+
+        assert.deepStrictEqual(await client.get(`${server.url}/gists/gist`), { id: 'gist' });
+        assert.strictEqual(server.requests.length, 2);
+    });
+
+    test('does not count a dropped connection as offline, as the request may have gone through', async () => {
+        server = await startMockServer(request => request.socket.destroy());
+        const client = new ApiClient({ retryDelayMs: 1 });
+
+        await assert.rejects(client.post(`${server.url}/gists`, {}), (error: any) => error.code === 'ECONNRESET' && isNetworkError(error) && !isOfflineError(error));
+        assert.strictEqual(server.requests.length, 1);
+    });
+
+    test('reports an unreachable server as offline', async () => {
+        // A port that was just free and nothing listens on any more
+        const closed = await startMockServer((_request, response) => sendJson(response, 200, {}));
+        await closed.close();
+        const client = new ApiClient({ maxRetries: 1, retryDelayMs: 1, log: () => undefined });
+
+        await assert.rejects(client.get(`${closed.url}/gists/gist`), (error: any) => error.code === 'ECONNREFUSED' && isOfflineError(error));
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FolderStorage } from '../folderStorage';
+import { isStoreNotFoundError } from '../storageProvider';
+
+const SETTINGS = 'settings.json';
+const KEYBINDINGS = 'keybindings.json';
+const EXTENSIONS = 'extensions.json';
+
+// Revision names start with the write time, so writes in the same millisecond would have no defined order
+function nextMillisecond(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 2));
+}
+
+suite('FolderStorage', () => {
+    let folderPath: string;
+    let storage: FolderStorage;
+
+    setup(() => {
+        folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-save-test-'));
+        storage = new FolderStorage(folderPath);
+    });
+
+    teardown(() => {
+        fs.rmSync(folderPath, { recursive: true, force: true });
+    });
+
+    test('creates a store and reads its latest revision', async () => {
+        const created = await storage.write(undefined, { [SETTINGS]: { content: '{"a":1}' } }, 'first');
+        await nextMillisecond();
+        const updated = await storage.write(created.id, { [SETTINGS]: { content: '{"a":2}' } }, 'second');
+
+        const latest = await storage.read(created.id);
+        assert.strictEqual(latest.revision, updated.revision);
+        assert.deepStrictEqual(latest.files, { [SETTINGS]: { content: '{"a":2}' } });
+        const first = await storage.read(created.id, created.revision);
+        assert.deepStrictEqual(first.files, { [SETTINGS]: { content: '{"a":1}' } });
+    });
+
+    test('keeps files that are not written and deletes files written as null', async () => {
+        const created = await storage.write(undefined, {
+            [SETTINGS]: { content: '{}' },
+            [KEYBINDINGS]: { content: '[]' },
+            [EXTENSIONS]: { content: '[]' }
+        }, 'first');
+        await nextMillisecond();
+        const updated = await storage.write(created.id, { [SETTINGS]: { content: '{"a":1}' }, [KEYBINDINGS]: null }, 'second');
+
+        const expected = { [SETTINGS]: { content: '{"a":1}' }, [EXTENSIONS]: { content: '[]' } };
+        assert.deepStrictEqual(updated.files, expected);
+        assert.deepStrictEqual((await storage.read(created.id)).files, expected);
+    });
+
+    test('lists revisions newest first, up to the limit', async () => {
+        const versions: string[] = [];
+        let id: string | undefined;
+        for (let index = 0; index < 3; index++) {
+            const stored = await storage.write(id, { [SETTINGS]: { content: `{"a":${index}}` } }, `write ${index}`);
+            id = stored.id;
+            versions.push(stored.revision!);
+            await nextMillisecond();
+        }
+
+        const revisions = await storage.listRevisions(id!, 2);
+        assert.deepStrictEqual(revisions.map(revision => revision.version), [versions[2], versions[1]]);
+        assert.ok(revisions.every(revision => !isNaN(Date.parse(revision.committedAt))));
+    });
+
+    test('reports a missing store as not found', async () => {
+        await assert.rejects(storage.read('missing'), error => isStoreNotFoundError(error));
+        await assert.rejects(storage.listRevisions('missing', 10), error => isStoreNotFoundError(error));
+    });
+
+    test('fails for a missing storage folder without treating it as a missing store', async () => {
+        const missingFolder = new FolderStorage(path.join(folderPath, 'missing'));
+        await assert.rejects(missingFolder.read('store'), (error: any) => {
+            assert.match(error.message, /Storage folder not found/);
+            return !isStoreNotFoundError(error);
+        });
+    });
+
+    test('rejects store IDs and revisions that are not plain file names', async () => {
+        const created = await storage.write(undefined, { [SETTINGS]: { content: '{}' } }, 'first');
+        for (const id of ['..', '../outside', 'a/b', 'a\\b', '']) {
+            await assert.rejects(storage.read(id), /Invalid store ID/);
+            await assert.rejects(storage.write(id, { [SETTINGS]: { content: '{}' } }, 'write'), /Invalid store ID/);
+        }
+        await assert.rejects(storage.read(created.id, '../../etc/passwd'), /Invalid revision/);
+    });
+});
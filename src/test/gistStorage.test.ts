@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { GistStorage } from '../gistStorage';
+import { MockServer, sendJson, startMockServer } from './mockServer';
+
+const SETTINGS = 'settings.json';
+const EXTENSIONS = 'extensions.json';
+const FULL_CONTENT = '{"editor.fontSize": 14, "editor.tabSize": 4}';
+
+suite('GistStorage', () => {
+    let server: MockServer | undefined;
+
+    teardown(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    // Serves a Gist whose settings.json is truncated, with its full content at rawUrl
+    async function startGistServer(rawUrl: (port: number) => string): Promise<MockServer> {
+        return startMockServer((request, response) => {
+            if (request.url === '/raw/settings.json') {
+                response.setHeader('content-type', 'text/plain');
+                response.end(FULL_CONTENT);
+                return;
+            }
+            sendJson(response, 200, {
+                id: 'gist',
+                history: [{ version: 'v1' }],
+                files: {
+                    [SETTINGS]: { content: FULL_CONTENT.slice(0, 10), truncated: true, ['raw_url']: rawUrl(server!.port) },
+                    [EXTENSIONS]: { content: '[]', truncated: false }
+                }
+            });
+        });
+    }
+
+    test('reads the full content of truncated files from their raw URL', async () => {
+        server = await startGistServer(port => `http://127.0.0.1:${port}/raw/settings.json`);
+        const storage = new GistStorage(`${server.url}/gists`, 'token secret');
+
+        const stored = await storage.read('gist');
+        assert.strictEqual(stored.revision, 'v1');
+        assert.strictEqual(stored.files[SETTINGS].content, FULL_CONTENT);
+        assert.strictEqual(stored.files[EXTENSIONS].content, '[]');
+        assert.deepStrictEqual(server.requests.map(request => request.url), ['/gists/gist', '/raw/settings.json']);
+        // The raw URL is on the API's host, so it gets the token as well
+        assert.strictEqual(server.requests[1].headers.authorization, 'token secret');
+    });
+
+    test('fails to read a Gist with more files than the API returns', async () => {
+        server = await startMockServer((_request, response) => sendJson(response, 200, {
+            id: 'gist',
+            truncated: true,
+            history: [{ version: 'v1' }],
+            files: { [SETTINGS]: { content: '{}' } }
+        }));
+        const storage = new GistStorage(`${server.url}/gists`);
+
+        await assert.rejects(storage.read('gist'), /has more files than the API returns/);
+    });
+
+    test('does not send the token to raw URLs on other hosts', async () => {
+        server = await startGistServer(port => `http://localhost:${port}/raw/settings.json`);
+        const storage = new GistStorage(`${server.url}/gists`, 'token secret');
+
+        const stored = await storage.read('gist');
+        assert.strictEqual(stored.files[SETTINGS].content, FULL_CONTENT);
+        assert.strictEqual(server.requests[0].headers.authorization, 'token secret');
+        assert.strictEqual(server.requests[1].headers.authorization, undefined);
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { removeSettings, updateKeybindingsContent, updateSettingsContent } from '../jsoncEdit';
+
+const SETTINGS = [
+    '{',
+    '    // Editor',
+    '    "a": {"x": 1},',
+    '    "b": 2,',
+    '    "c": [1, 2]',
+    '}'
+].join('\n');
+
+suite('jsoncEdit', () => {
+    test('removes a setting without reformatting the others', () => {
+        assert.strictEqual(updateSettingsContent(SETTINGS, { b: undefined }), [
+            '{',
+            '    // Editor',
+            '    "a": {"x": 1},',
+            '    "c": [1, 2]',
+            '}'
+        ].join('\n'));
+        assert.strictEqual(removeSettings(SETTINGS, ['c']), [
+            '{',
+            '    // Editor',
+            '    "a": {"x": 1},',
+            '    "b": 2',
+            '}'
+        ].join('\n'));
+    });
+
+    test('appends a setting formatting only its own value', () => {
+        assert.strictEqual(updateSettingsContent(SETTINGS, { d: { y: true } }), [
+            '{',
+            '    // Editor',
+            '    "a": {"x": 1},',
+            '    "b": 2,',
+            '    "c": [1, 2],',
+            '    "d": {',
+            '        "y": true',
+            '    }',
+            '}'
+        ].join('\n'));
+    });
+
+    test('changes a setting in place', () => {
+        assert.strictEqual(updateSettingsContent(SETTINGS, { b: 3 }), SETTINGS.replace('"b": 2', '"b": 3'));
+    });
+
+    test('keeps the indentation and line endings of the file', () => {
+        assert.strictEqual(updateSettingsContent('{\r\n\t"a": [1]\r\n}', { b: [2] }), '{\r\n\t"a": [1],\r\n\t"b": [\r\n\t\t2\r\n\t]\r\n}');
+    });
+
+    test('writes the first setting of an empty file on a line of its own', () => {
+        assert.strictEqual(updateSettingsContent('', { a: 1 }), '{\n    "a": 1\n}');
+        assert.strictEqual(updateSettingsContent('{}', { a: 1 }), '{\n    "a": 1\n}');
+    });
+
+    test('appends a keybinding without reformatting the one before it', () => {
+        const content = '[\n    // Mine\n    { "key": "ctrl+a", "command": "a" }\n]';
+        const keybindings = [{ key: 'ctrl+a', command: 'a' }, { key: 'ctrl+b', command: 'b' }];
+        assert.strictEqual(updateKeybindingsContent(content, keybindings), [
+            '[',
+            '    // Mine',
+            '    { "key": "ctrl+a", "command": "a" },',
+            '    {',
+            '        "key": "ctrl+b",',
+            '        "command": "b"',
+            '    }',
+            ']'
+        ].join('\n'));
+    });
+
+    test('removes keybindings that are gone', () => {
+        const content = '[\n    { "key": "ctrl+a", "command": "a" },\n    { "key": "ctrl+b", "command": "b" }\n]';
+        assert.strictEqual(updateKeybindingsContent(content, [{ key: 'ctrl+b', command: 'b' }]), '[\n    { "key": "ctrl+b", "command": "b" }\n]');
+    });
+});
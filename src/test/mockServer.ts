@@ -0,0 +1,32 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// A local HTTP server for API tests; records every request it gets
+export interface MockServer {
+    url: string; // e.g. 'http://127.0.0.1:12345'
+    port: number;
+    requests: http.IncomingMessage[];
+    close(): Promise<void>;
+}
+
+export async function startMockServer(handler: (request: http.IncomingMessage, response: http.ServerResponse) => void): Promise<MockServer> {
+    const requests: http.IncomingMessage[] = [];
+    const server = http.createServer((request, response) => {
+        requests.push(request);
+        handler(request, response);
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const port = (server.address() as AddressInfo).port;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        port,
+        requests,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
+
+export function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+    response.setHeader('content-type', 'application/json');
+    response.writeHead(status, headers);
+    response.end(JSON.stringify(body));
+}
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { mergeSettings } from '../merge';
+import { PLATFORM_SETTINGS_KEY, applyPlatformSettings, keepLocalSettings } from '../platform';
+
+const PYTHON_FORMATTER = 'python.formatting.provider';
+const FONT_SIZE = 'editor.fontSize';
+
+suite('keepLocalSettings', () => {
+    test('records a skipped setting with its local value, so the next download applies it again', () => {
+        // A new machine: the extension setting could not be applied before the extension was installed
+        const remote = { [FONT_SIZE]: 14, [PYTHON_FORMATTER]: 'black' };
+        const local = { [FONT_SIZE]: 12 };
+        const synced = keepLocalSettings(remote, local, [PYTHON_FORMATTER], 'linux');
+        assert.deepStrictEqual(synced, { [FONT_SIZE]: 14 });
+
+        // After the download, the settings without the skipped one count as unchanged locally
+        const afterDownload = { [FONT_SIZE]: 14 };
+        const merge = mergeSettings(synced, afterDownload, remote);
+        assert.strictEqual(merge.merged.get(PYTHON_FORMATTER), 'black');
+        assert.deepStrictEqual(merge.conflicts, []);
+    });
+
+    test('keeps the local value of a skipped setting that exists locally', () => {
+        const synced = keepLocalSettings({ [PYTHON_FORMATTER]: 'black' }, { [PYTHON_FORMATTER]: 'yapf' }, [PYTHON_FORMATTER], 'linux');
+        assert.deepStrictEqual(synced, { [PYTHON_FORMATTER]: 'yapf' });
+    });
+
+    test('takes skipped settings out of the platform settings block', () => {
+        const remote = {
+            [PYTHON_FORMATTER]: 'black',
+            [PLATFORM_SETTINGS_KEY]: { linux: { [PYTHON_FORMATTER]: 'autopep8', [FONT_SIZE]: 13 }, darwin: { [PYTHON_FORMATTER]: 'yapf' } }
+        };
+        const synced = keepLocalSettings(remote, {}, [PYTHON_FORMATTER], 'linux');
+        assert.strictEqual(applyPlatformSettings(synced, 'linux')[PYTHON_FORMATTER], undefined);
+        assert.strictEqual(applyPlatformSettings(synced, 'linux')[FONT_SIZE], 13);
+        assert.strictEqual(synced[PLATFORM_SETTINGS_KEY].darwin[PYTHON_FORMATTER], 'yapf');
+        // The downloaded settings themselves are not changed
+        assert.strictEqual(remote[PLATFORM_SETTINGS_KEY].linux[PYTHON_FORMATTER], 'autopep8');
+    });
+});
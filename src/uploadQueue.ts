@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { GistService } from './gistService';
+
+// How often queued uploads are retried
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+// Retries the uploads that failed because the network was unavailable until they go through
+export class UploadQueue implements vscode.Disposable {
+    private static instance: UploadQueue;
+    private gistService: GistService;
+    private retryTimer: NodeJS.Timeout | undefined;
+    private retrying = false;
+
+    private constructor(gistService: GistService) {
+        this.gistService = gistService;
+    }
+
+    public static getInstance(gistService: GistService): UploadQueue {
+        if (!UploadQueue.instance) {
+            UploadQueue.instance = new UploadQueue(gistService);
+        }
+        return UploadQueue.instance;
+    }
+
+    // Starts retrying on an interval; uploads queued in an earlier session are retried right away
+    public start(): void {
+        clearInterval(this.retryTimer);
+        this.retryTimer = setInterval(() => this.retryQueuedUploads(), RETRY_INTERVAL_MS);
+        this.retryQueuedUploads();
+    }
+
+    public dispose(): void {
+        clearInterval(this.retryTimer);
+    }
+
+    private async retryQueuedUploads(): Promise<void> {
+        const queued = this.gistService.getQueuedUploads();
+        if (this.retrying || queued.length === 0) {
+            return;
+        }
+        this.retrying = true;
+        try {
+            for (const profileName of queued) {
+                await this.gistService.runQueuedUpload(profileName);
+            }
+        } catch (error) {
+            console.error('Queued upload failed:', error);
+        } finally {
+            this.retrying = false;
+        }
+    }
+}
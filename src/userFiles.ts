@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Storage file names of user files start with 'files/', encoded like the rest of the path.
+// Profile names cannot contain '%', so these names never clash with a profile's file prefix.
+const USER_FILE_MARKER = encodeURIComponent('files/');
+
+export const SNIPPETS_FOLDER_NAME = 'snippets';
+export const TASKS_FILENAME = 'tasks.json';
+
+// Relative path (with '/' separators) in the user data folder -> content
+export type UserFiles = { [relativePath: string]: string };
+
+// True for relative paths that stay inside the folder they are relative to
+export function isSafeRelativePath(relativePath: string): boolean {
+    if (!relativePath || relativePath.includes('\\') || relativePath.startsWith('/') || /^[A-Za-z]:/.test(relativePath)) {
+        return false;
+    }
+    return relativePath.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+// Flat storage file name of a user file, e.g. 'files%2Fsnippets%2Fpython.json'
+export function toStorageFileName(relativePath: string): string {
+    return USER_FILE_MARKER + encodeURIComponent(relativePath);
+}
+
+// Relative path of a user file's storage file name; undefined for other files and for paths that would leave the user data folder
+export function fromStorageFileName(fileName: string): string | undefined {
+    if (!fileName.startsWith(USER_FILE_MARKER)) {
+        return undefined;
+    }
+    try {
+        const relativePath = decodeURIComponent(fileName.slice(USER_FILE_MARKER.length));
+        return isSafeRelativePath(relativePath) ? relativePath : undefined;
+    } catch {
+        return undefined; // Malformed encoding
+    }
+}
+
+// The user files among storage files (keyed by storage file name), by relative path
+export function fromStorageFiles(files: { [fileName: string]: { content?: string } }): UserFiles {
+    const userFiles: UserFiles = {};
+    for (const [fileName, file] of Object.entries(files)) {
+        if (!fileName.startsWith(USER_FILE_MARKER)) {
+            continue;
+        }
+        const relativePath = fromStorageFileName(fileName);
+        if (relativePath === undefined) {
+            console.warn(`Skipping stored file with an invalid name: ${fileName}`);
+        } else if (file.content) {
+            userFiles[relativePath] = file.content;
+        }
+    }
+    return userFiles;
+}
+
+// Relative paths of the files in a folder, recursively
+function listFolder(folderPath: string, relativeFolder: string): string[] {
+    return fs.readdirSync(folderPath, { withFileTypes: true }).flatMap(entry => {
+        const relativePath = `${relativeFolder}/${entry.name}`;
+        if (entry.isDirectory()) {
+            return listFolder(path.join(folderPath, entry.name), relativePath);
+        }
+        return entry.isFile() ? [relativePath] : [];
+    });
+}
+
+// Relative paths of the synced files and folders: tasks.json, the snippets and the given additional paths that stay
+// inside the user data folder
+export function getUserFilePaths(additionalPaths: string[]): string[] {
+    const relativePaths: string[] = [];
+    for (const configuredPath of [TASKS_FILENAME, SNIPPETS_FOLDER_NAME, ...additionalPaths]) {
+        const relativePath = configuredPath.trim().replace(/\\/g, '/').replace(/\/+$/, '');
+        if (!isSafeRelativePath(relativePath)) {
+            console.warn(`Skipping additional file outside the user data folder: ${configuredPath}`);
+            continue;
+        }
+        relativePaths.push(relativePath);
+    }
+    return relativePaths;
+}
+
+// Reads tasks.json, the snippets and the given additional files and folders (folders recursively).
+// Missing and empty files are left out: storage backends such as Gists cannot hold empty files.
+export function readUserFiles(userDataPath: string, additionalPaths: string[], excludedPaths: string[]): UserFiles {
+    const userFiles: UserFiles = {};
+    for (const relativePath of getUserFilePaths(additionalPaths)) {
+        try {
+            const fullPath = path.join(userDataPath, relativePath);
+            if (!fs.existsSync(fullPath)) {
+                continue;
+            }
+            const filePaths = fs.statSync(fullPath).isDirectory() ? listFolder(fullPath, relativePath) : [relativePath];
+            for (const filePath of filePaths.filter(candidate => !excludedPaths.includes(candidate))) {
+                const content = fs.readFileSync(path.join(userDataPath, filePath), 'utf8');
+                if (content) {
+                    userFiles[filePath] = content;
+                }
+            }
+        } catch (error) {
+            console.error(`Error reading ${relativePath}:`, error);
+        }
+    }
+    return userFiles;
+}
+
+// Writes a user file, creating its folders, or deletes it if no content is given
+export function writeUserFile(userDataPath: string, relativePath: string, content: string | undefined): void {
+    if (!isSafeRelativePath(relativePath)) {
+        throw new Error(`Refusing to write outside the user data folder: ${relativePath}`);
+    }
+    const fullPath = path.join(userDataPath, relativePath);
+    if (content === undefined) {
+        if (fs.existsSync(fullPath)) {
+            fs.unlinkSync(fullPath);
+        }
+        return;
+    }
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content, 'utf8');
+}